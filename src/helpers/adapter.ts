@@ -0,0 +1,183 @@
+/**
+ * Baileys module adapter.
+ *
+ * The helper never depends on a specific Baileys fork. The module is
+ * injected once with configure({ baileys }) (or createHelper), its
+ * capabilities are detected up front and cached, and every send goes
+ * through the resulting adapter. When nothing was configured, the first
+ * installed fork is imported once and reused.
+ */
+
+import {
+  BaileysAdapter,
+  BaileysCapabilities,
+  HelperOptions,
+  RelayMessageSignature,
+  WASocket
+} from '../types/index.js';
+import { BaileysCapabilityError, BaileysNotFoundError } from '../types/errors.js';
+
+/**
+ * Adapter set with configure()
+ */
+let configuredAdapter: BaileysAdapter | undefined;
+
+/**
+ * Adapter for the auto-detected module, imported at most once
+ */
+let detectedAdapter: Promise<BaileysAdapter> | undefined;
+
+/**
+ * Look up an export on the module, its Utils namespace or its default export
+ */
+function resolveExport(baileys: any, name: string): any {
+  return baileys?.[name] ?? baileys?.Utils?.[name] ?? baileys?.default?.[name];
+}
+
+/**
+ * Detect which of the functions used by the helper a Baileys module provides
+ */
+export function detectCapabilities(baileys: any): BaileysCapabilities {
+  return {
+    generateWAMessageFromContent: typeof resolveExport(baileys, 'generateWAMessageFromContent') === 'function',
+    prepareWAMessageMedia: typeof resolveExport(baileys, 'prepareWAMessageMedia') === 'function',
+    proto: !!resolveExport(baileys, 'proto')
+  };
+}
+
+/**
+ * Detect how a socket relays raw messages
+ */
+export function getRelaySignature(socket: WASocket): RelayMessageSignature {
+  if (typeof socket?.relayMessage === 'function') return 'options';
+  if (typeof (socket as any)?.relayWAMessage === 'function') return 'legacy';
+
+  throw new BaileysCapabilityError(
+    'Socket provides neither relayMessage nor relayWAMessage',
+    'relayMessage',
+    ['relayMessage']
+  );
+}
+
+/**
+ * Get a required module function, failing with the list of what is missing
+ */
+function requireExport(baileys: any, name: keyof BaileysCapabilities): any {
+  const fn = resolveExport(baileys, name);
+  if (typeof fn !== 'function') {
+    throw new BaileysCapabilityError(
+      `Configured Baileys module does not export ${name}`,
+      name,
+      [name]
+    );
+  }
+  return fn;
+}
+
+/**
+ * Wrap a Baileys module in an adapter.
+ * Capabilities are detected once; generateWAMessageFromContent is required.
+ *
+ * @param baileys The imported Baileys module (any fork)
+ */
+export function createBaileysAdapter(baileys: any): BaileysAdapter {
+  if (!baileys || (typeof baileys !== 'object' && typeof baileys !== 'function')) {
+    throw new BaileysCapabilityError('A Baileys module must be provided', 'createBaileysAdapter');
+  }
+
+  const capabilities = detectCapabilities(baileys);
+  if (!capabilities.generateWAMessageFromContent) {
+    throw new BaileysCapabilityError(
+      'Configured Baileys module does not export generateWAMessageFromContent',
+      'createBaileysAdapter',
+      ['generateWAMessageFromContent']
+    );
+  }
+
+  const generateWAMessageFromContent = resolveExport(baileys, 'generateWAMessageFromContent');
+
+  return {
+    module: baileys,
+    capabilities,
+    generateWAMessageFromContent: (jid, content, options) => generateWAMessageFromContent(jid, content, options),
+    prepareWAMessageMedia: (content, options) => requireExport(baileys, 'prepareWAMessageMedia')(content, options),
+    relayMessage: async (socket, jid, message, additionalNodes, additionalAttributes) => {
+      if (getRelaySignature(socket) === 'legacy') {
+        // Pre multi-device sockets relay the full WAMessage and cannot carry extra nodes,
+        // without which WhatsApp does not render the buttons
+        if (additionalNodes.length > 0) {
+          throw new BaileysCapabilityError(
+            'Socket relays with relayWAMessage, which cannot send the biz / bot nodes interactive messages need',
+            'relayMessage',
+            ['relayMessage']
+          );
+        }
+        await (socket as any).relayWAMessage(message, { waitForAck: true });
+        return;
+      }
+
+      await socket.relayMessage(jid, message.message, {
+        ...(message.key.id && { messageId: message.key.id }),
+        additionalNodes,
+        ...(additionalAttributes && { additionalAttributes })
+      });
+    }
+  };
+}
+
+/**
+ * Inject the Baileys module used by every helper call
+ *
+ * @param options Options holding the Baileys module
+ * @returns The adapter now in use
+ */
+export function configure(options: HelperOptions): BaileysAdapter {
+  configuredAdapter = createBaileysAdapter(options.baileys);
+  return configuredAdapter;
+}
+
+/**
+ * Forget the configured module (the next call auto-detects again)
+ */
+export function resetConfiguration(): void {
+  configuredAdapter = undefined;
+  detectedAdapter = undefined;
+}
+
+/**
+ * Baileys forks tried by auto-detection, in order of preference
+ */
+const BAILEYS_MODULES = ['baileys', '@whiskeysockets/baileys', '@adiwajshing/baileys'];
+
+/**
+ * Dynamic imports for compatibility with different Baileys versions.
+ * Module names are not literals, so type-checking does not need any fork installed.
+ */
+async function importBaileysModule(): Promise<any> {
+  for (const moduleName of BAILEYS_MODULES) {
+    try {
+      return await import(moduleName);
+    } catch {}
+  }
+
+  throw new BaileysNotFoundError(
+    'No Baileys module found. Please install baileys, @whiskeysockets/baileys, or @adiwajshing/baileys',
+    'getBaileysAdapter',
+    [...BAILEYS_MODULES]
+  );
+}
+
+/**
+ * Get the adapter for the configured module, importing an installed fork once if none was configured
+ */
+export async function getBaileysAdapter(): Promise<BaileysAdapter> {
+  if (configuredAdapter) return configuredAdapter;
+
+  if (!detectedAdapter) {
+    detectedAdapter = importBaileysModule().then(createBaileysAdapter);
+    // Allow a later call to retry when the import failed
+    detectedAdapter.catch(() => { detectedAdapter = undefined; });
+  }
+
+  return detectedAdapter;
+}
@@ -0,0 +1,211 @@
+/**
+ * Fluent builder for interactive messages.
+ *
+ *   interactive()
+ *     .body('Pick one')
+ *     .header.image(buffer)
+ *     .quickReply('yes', 'Yes')
+ *     .url('Site', 'https://example.com')
+ *     .send(socket, jid);
+ *
+ * Every step is validated against the same rules as validateInteractiveMessage
+ * as soon as it is added, so mistakes throw where they are made.
+ */
+
+import {
+  Button,
+  HeaderMediaAttachment,
+  InteractiveMessageConfig,
+  ListRow,
+  MediaSource,
+  SendInteractiveMessageParams,
+  SentInteractiveMessage,
+  ValidationResult,
+  WASocket
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { sendInteractiveMessage, validateInteractiveMessage } from './buttons.js';
+
+/**
+ * Optional attachment fields of a media header
+ */
+type MediaHeaderOptions = Pick<HeaderMediaAttachment, 'mediaCaption' | 'mimetype' | 'fileName' | 'jpegThumbnail'>;
+
+/**
+ * Send options other than the message itself
+ */
+type BuilderSendOptions = Omit<SendInteractiveMessageParams, 'socket' | 'jid' | 'config' | 'buttons'>;
+
+/**
+ * Header step of the builder (`builder.header.image(...)`)
+ */
+export class HeaderBuilder {
+  constructor(private builder: InteractiveMessageBuilder) {}
+
+  /**
+   * Plain text header
+   */
+  text(text: string): InteractiveMessageBuilder {
+    return this.builder.set({ headerText: text }, 'headerText');
+  }
+
+  image(media: MediaSource, options: MediaHeaderOptions = {}): InteractiveMessageBuilder {
+    return this.builder.set({ headerMedia: { mediaType: 'image', media, ...options } }, 'headerMedia');
+  }
+
+  video(media: MediaSource, options: MediaHeaderOptions = {}): InteractiveMessageBuilder {
+    return this.builder.set({ headerMedia: { mediaType: 'video', media, ...options } }, 'headerMedia');
+  }
+
+  document(media: MediaSource, options: MediaHeaderOptions = {}): InteractiveMessageBuilder {
+    return this.builder.set({ headerMedia: { mediaType: 'document', media, ...options } }, 'headerMedia');
+  }
+
+  location(latitude: number, longitude: number, details: { name?: string; address?: string } = {}): InteractiveMessageBuilder {
+    return this.builder.set({ headerMedia: { mediaType: 'location', latitude, longitude, ...details } }, 'headerMedia');
+  }
+}
+
+/**
+ * Builds an InteractiveMessageConfig + Button[] step by step
+ */
+export class InteractiveMessageBuilder {
+  readonly header = new HeaderBuilder(this);
+  private config: Partial<InteractiveMessageConfig> = {};
+  private buttons: Button[] = [];
+
+  body(text: string): this {
+    return this.set({ body: text }, 'body');
+  }
+
+  footer(text: string): this {
+    return this.set({ footer: text }, 'footer');
+  }
+
+  /**
+   * Reply button
+   */
+  quickReply(id: string, title: string): this {
+    return this.button({ type: 'quick_reply', id, title });
+  }
+
+  /**
+   * Button opening a URL
+   */
+  url(title: string, url: string, id: string = this.nextId('url')): this {
+    return this.button({ type: 'cta_url', id, title, url });
+  }
+
+  /**
+   * Button calling a phone number
+   */
+  call(title: string, phoneNumber: string, id: string = this.nextId('call')): this {
+    return this.button({ type: 'cta_call', id, title, phoneNumber });
+  }
+
+  /**
+   * Button copying a code to the clipboard
+   */
+  copy(title: string, copyText: string, id: string = this.nextId('copy')): this {
+    return this.button({ type: 'cta_copy', id, title, copyText });
+  }
+
+  /**
+   * Single-select list button
+   */
+  list(title: string, options: ListRow[], id: string = this.nextId('list')): this {
+    return this.button({ type: 'single_select', id, title, options });
+  }
+
+  /**
+   * Add any button
+   */
+  button(button: Button): this {
+    const index = this.buttons.length;
+    this.check(
+      { ...this.config } as InteractiveMessageConfig,
+      [...this.buttons, button],
+      path => path === 'buttons' || path.startsWith(`buttons[${index}]`)
+    );
+    this.buttons.push(button);
+    return this;
+  }
+
+  /**
+   * Apply message fields after validating them
+   * @internal Used by the header step
+   */
+  set(fields: Partial<InteractiveMessageConfig>, field: keyof InteractiveMessageConfig): this {
+    const next = { ...this.config, ...fields } as InteractiveMessageConfig;
+    this.check(next, this.buttons, path => path === field || path.startsWith(`${field}.`));
+    this.config = next;
+    return this;
+  }
+
+  /**
+   * Validate the complete message
+   */
+  validate(): ValidationResult {
+    return validateInteractiveMessage(this.config as InteractiveMessageConfig, this.buttons);
+  }
+
+  /**
+   * Return the validated message configuration and buttons
+   */
+  build(): { config: InteractiveMessageConfig; buttons: Button[] } {
+    const validation = this.validate();
+    if (!validation.isValid) {
+      throw new InteractiveValidationError(
+        'Invalid interactive message configuration',
+        'InteractiveMessageBuilder',
+        validation.errors,
+        validation.warnings,
+        validation.example
+      );
+    }
+
+    return {
+      config: { ...this.config } as InteractiveMessageConfig,
+      buttons: [...this.buttons]
+    };
+  }
+
+  /**
+   * Build and send through sendInteractiveMessage
+   * (an incomplete message rejects, like any other send failure)
+   */
+  async send(socket: WASocket, jid: string, options: BuilderSendOptions = {}): Promise<SentInteractiveMessage> {
+    return sendInteractiveMessage({ ...options, socket, jid, ...this.build() });
+  }
+
+  /**
+   * Throw the validation errors of a candidate state that concern the step being added
+   */
+  private check(config: InteractiveMessageConfig, buttons: Button[], concerns: (path: string) => boolean): void {
+    const validation = validateInteractiveMessage(config, buttons);
+    const errors = validation.errors.filter(error => concerns(error.path));
+
+    if (errors.length > 0) {
+      throw new InteractiveValidationError(
+        errors[0]!.message,
+        'InteractiveMessageBuilder',
+        errors,
+        validation.warnings.filter(warning => concerns(warning.path))
+      );
+    }
+  }
+
+  /**
+   * Generate an ID for buttons added without one
+   */
+  private nextId(prefix: string): string {
+    return `${prefix}_${this.buttons.length + 1}`;
+  }
+}
+
+/**
+ * Start building an interactive message
+ */
+export function interactive(): InteractiveMessageBuilder {
+  return new InteractiveMessageBuilder();
+}
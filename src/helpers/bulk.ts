@@ -0,0 +1,248 @@
+/**
+ * Bulk / broadcast sending of one interactive message to many recipients.
+ *
+ * The message is validated and its header media uploaded once (templates are
+ * rendered and validated again per recipient); recipients are then sent to by
+ * a small worker pool sharing a per-second throttle, with jitter between sends
+ * and exponential backoff for transient failures.
+ */
+
+import {
+  BulkProgressEvent,
+  BulkRecipient,
+  BulkSendFailure,
+  BulkSendReport,
+  BulkSendSuccess,
+  MessageContent,
+  MiddlewareContext,
+  SendBulkInteractiveParams,
+  TemplateLocalization
+} from '../types/index.js';
+import {
+  BaileysCapabilityError,
+  BaileysNotFoundError,
+  MediaUploadError,
+  RelayError,
+  UnsupportedRecipientError
+} from '../types/errors.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import {
+  buildAdditionalNodes,
+  buildFormattedContent,
+  prepareInteractiveContent,
+  relayWithMiddleware,
+  validateInteractiveMessage
+} from './buttons.js';
+import { validateLegacyButtons } from './legacy.js';
+import { prepareHeaderMedia } from './media.js';
+import { recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext, getMiddleware, reportMiddlewareError } from './middleware.js';
+import {
+  findUnresolvedPlaceholders,
+  hasPlaceholders,
+  renderMessageTemplate,
+  validateRenderedTemplate
+} from './template.js';
+
+/**
+ * Defaults applied when a bulk send does not configure them
+ */
+export const BULK_DEFAULTS = {
+  concurrency: 2,
+  ratePerSecond: 1,
+  jitterMs: 250,
+  retries: 3,
+  retryDelayMs: 1000
+} as const;
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Random delay in [0, maxMs)
+ */
+function jitter(maxMs: number): number {
+  return maxMs > 0 ? Math.floor(Math.random() * maxMs) : 0;
+}
+
+/**
+ * Default retry policy: relay and upload failures flagged retryable, and unknown errors.
+ * Invalid input, unsupported recipients and a missing / incomplete Baileys module are never retried.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof RelayError || error instanceof MediaUploadError) return error.retryable;
+
+  return !(error instanceof InteractiveValidationError) &&
+    !(error instanceof BaileysCapabilityError) &&
+    !(error instanceof BaileysNotFoundError) &&
+    !(error instanceof UnsupportedRecipientError);
+}
+
+/**
+ * Create a throttle handing out send slots at most `ratePerSecond` times per second
+ */
+function createThrottle(ratePerSecond: number, jitterMs: number): () => Promise<void> {
+  const interval = ratePerSecond > 0 ? 1000 / ratePerSecond : 0;
+  let nextSlot = 0;
+
+  return async () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    await delay(slot - now + jitter(jitterMs));
+  };
+}
+
+/**
+ * Send the same interactive message to many recipients
+ *
+ * Recipients may carry template variables ({{name}}) and a locale for
+ * i18n keys ({{t:key}}); their rendered message is validated before sending.
+ *
+ * @returns Report of every successful and failed recipient
+ */
+export async function sendBulkInteractive(params: SendBulkInteractiveParams): Promise<BulkSendReport> {
+  const {
+    socket,
+    config,
+    buttons,
+    format = 'current',
+    transform,
+    baileys,
+    concurrency = BULK_DEFAULTS.concurrency,
+    ratePerSecond = BULK_DEFAULTS.ratePerSecond,
+    jitterMs = BULK_DEFAULTS.jitterMs,
+    retries = BULK_DEFAULTS.retries,
+    retryDelayMs = BULK_DEFAULTS.retryDelayMs,
+    isRetryable = isTransientError,
+    onProgress,
+    locale,
+    fallbackLocale,
+    bundles
+  } = params;
+  const startedAt = Date.now();
+
+  // Templates are rendered and validated per recipient
+  const isTemplate = hasPlaceholders(config) || hasPlaceholders(buttons);
+
+  // Validate once for every recipient; text still holding placeholders is only checked once rendered
+  const validation = validateInteractiveMessage(config, buttons);
+  const legacyValidation = format === 'legacy' ? validateLegacyButtons(buttons) : undefined;
+  const errors = [...validation.errors, ...(legacyValidation?.errors || [])]
+    .filter(error => !(isTemplate && hasPlaceholders(error.value)));
+  if (errors.length > 0) {
+    recordValidationFailure('sendBulkInteractive', errors);
+    throw new InteractiveValidationError(
+      'Invalid interactive message configuration',
+      'sendBulkInteractive',
+      errors,
+      [...validation.warnings, ...(legacyValidation?.warnings || [])]
+    );
+  }
+
+  // Upload header media once, and build the content once unless it is a template
+  const preparedHeader = config.headerMedia ? await prepareHeaderMedia(socket, config.headerMedia, baileys) : undefined;
+  const sharedContent = isTemplate ? undefined : buildFormattedContent(config, buttons, format, transform, preparedHeader);
+
+  const recipients: BulkRecipient[] = params.recipients.map(recipient =>
+    typeof recipient === 'string' ? { jid: recipient } : recipient);
+  const total = recipients.length;
+  const sent: BulkSendSuccess[] = [];
+  const failed: BulkSendFailure[] = [];
+  const waitForSlot = createThrottle(ratePerSecond, jitterMs);
+  const report = (event: Omit<BulkProgressEvent, 'completed' | 'total'>) =>
+    onProgress?.({ ...event, completed: sent.length + failed.length, total });
+
+  const buildContent = async (recipient: BulkRecipient, middleware: MiddlewareContext): Promise<MessageContent> => {
+    // Hooks may rewrite or mutate the message, so each recipient then gets its own copy
+    const hasMessageHooks = getMiddleware()
+      .some(({ beforeValidate, afterNormalize, beforeRelay }) => beforeValidate || afterNormalize || beforeRelay);
+    if (sharedContent && !hasMessageHooks) return sharedContent;
+    if (!isTemplate) {
+      return prepareInteractiveContent({ ...params, jid: recipient.jid }, 'sendBulkInteractive', middleware, preparedHeader);
+    }
+
+    const recipientLocale = recipient.locale ?? locale;
+    const localization: TemplateLocalization = {
+      ...(recipientLocale !== undefined && { locale: recipientLocale }),
+      ...(fallbackLocale !== undefined && { fallbackLocale }),
+      ...(bundles !== undefined && { bundles })
+    };
+    const rendered = renderMessageTemplate(config, buttons, recipient.variables, localization);
+    const unresolved = findUnresolvedPlaceholders(config, buttons, recipient.variables, localization);
+
+    const renderedValidation = validateRenderedTemplate(rendered.config, rendered.buttons, unresolved);
+    if (!renderedValidation.isValid) {
+      recordValidationFailure('sendBulkInteractive', renderedValidation.errors);
+      throw new InteractiveValidationError(
+        `Invalid rendered message template for ${recipient.jid}`,
+        'sendBulkInteractive',
+        renderedValidation.errors,
+        renderedValidation.warnings
+      );
+    }
+
+    return prepareInteractiveContent(
+      { ...params, ...rendered, jid: recipient.jid },
+      'sendBulkInteractive',
+      middleware,
+      preparedHeader
+    );
+  };
+
+  const sendTo = async (recipient: BulkRecipient): Promise<void> => {
+    const { jid } = recipient;
+
+    for (let attempt = 1; ; attempt++) {
+      await waitForSlot();
+      const middleware = createMiddlewareContext('sendBulkInteractive', jid);
+
+      try {
+        const content = await buildContent(recipient, middleware);
+        const result = await relayWithMiddleware(
+          socket,
+          jid,
+          content,
+          buildAdditionalNodes(jid, middleware.buttons ?? buttons, middleware.config ?? config, format),
+          params,
+          middleware
+        );
+        sent.push({ jid, attempts: attempt, result });
+        report({ jid, status: 'sent', attempt, result });
+        return;
+      } catch (error) {
+        if (attempt > retries || !isRetryable(error)) {
+          // Only the final failure of a recipient is reported to onError
+          await reportMiddlewareError(middleware, error);
+          failed.push({ jid, attempts: attempt, error });
+          report({ jid, status: 'failed', attempt, error });
+          return;
+        }
+
+        // Exponential backoff before the next attempt
+        report({ jid, status: 'retrying', attempt, error });
+        await delay(retryDelayMs * 2 ** (attempt - 1) + jitter(jitterMs));
+      }
+    }
+  };
+
+  // Worker pool pulling recipients in order
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, total)) }, async () => {
+    while (next < total) {
+      await sendTo(recipients[next++]!);
+    }
+  });
+  await Promise.all(workers);
+
+  return {
+    total,
+    sent,
+    failed,
+    durationMs: Date.now() - startedAt
+  };
+}
@@ -6,37 +6,50 @@
  */
 
 import { 
-  WASocket, 
+  WASocket,
   MessageContent, 
   Button, 
   ButtonType, 
+  BinaryNode,
+  BuiltMiddlewareOperation,
+  ButtonTransformer,
   InteractiveMessageConfig, 
+  InteractiveMessageContent,
+  InteractiveMessageHeader,
+  MessageFormat,
+  MiddlewareContext,
   SendInteractiveButtonsBasicParams,
   SendInteractiveMessageParams,
-  ValidationResult 
+  SentInteractiveMessage,
+  SingleSelectButton,
+  PreparedHeaderMedia,
+  RelayContentOptions,
+  FieldRule,
+  ValidationError,
+  ValidationWarning,
+  ValidationResult,
+  WAMessage
 } from '../types/index.js';
+import { BaileysCapabilityError, RelayError, UnsupportedRecipientError } from '../types/errors.js';
 import { InteractiveValidationError } from '../types/validation.js';
-
-/**
- * Dynamic imports for compatibility with different Baileys versions
- */
-async function importBaileysModules() {
-  const modules = [];
-  
-  try {
-    modules.push(await import('baileys'));
-  } catch {}
-  
-  try {
-    modules.push(await import('@whiskeysockets/baileys'));
-  } catch {}
-  
-  try {
-    modules.push(await import('@adiwajshing/baileys'));
-  } catch {}
-  
-  return modules;
-}
+import { serializeButton } from './serializers.js';
+import { LIST_LIMITS, validateListRows } from './list.js';
+import { prepareHeaderMedia } from './media.js';
+import { getBaileysAdapter } from './adapter.js';
+import { buildLegacyMessageContent, toLegacyButton, validateLegacyButtons } from './legacy.js';
+import { sendFallbackMessage, shouldFallBackOnError, shouldUseFallback } from './fallback.js';
+import { createMiddlewareContext, reportMiddlewareError, runMiddleware } from './middleware.js';
+import { getLogger } from './logger.js';
+import { recordSendFailure, recordSent, recordValidationFailure } from './metrics.js';
+import {
+  BASE_BUTTON_RULES,
+  BUTTON_RULES,
+  CONFIG_RULES,
+  COUNT_RULES,
+  MESSAGE_LIMITS,
+  checkFieldRule,
+  describeRule
+} from './rules.js';
 
 /**
  * Normalize various historical / upstream button shapes into the
@@ -44,53 +57,70 @@ async function importBaileysModules() {
  * 
  * Accepted input shapes:
  *  1. Already native_flow: { name: 'quick_reply', buttonParamsJson: '{...}' }
- *  2. Simple legacy:       { id: 'id1', text: 'My Button' }
+ *  2. Typed / legacy:      { id: 'id1', title: 'My Button', type?: ButtonType, ... }
+ *                          serialized with the per-type payload from BUTTON_SERIALIZERS
  *  3. Old Baileys shape:   { buttonId: 'id1', buttonText: { displayText: 'My Button' } }
  *  4. Any other object is passed through verbatim
  * 
+ * The 'legacy' format returns buttonsMessage buttons / listMessage sections
+ * instead, and 'custom' passes each native flow entry through `transform`.
+ * 
  * @param buttons Input raw buttons
- * @returns Array where each item has at minimum { name, buttonParamsJson }
+ * @param format Output format (defaults to 'current')
+ * @param transform Per-button hook, required for the 'custom' format
+ * @returns Array where each item has at minimum { name, buttonParamsJson } (current format)
  */
-export function buildInteractiveButtons(buttons: Button[] = []): any[] {
-  return buttons.map((b, i) => {
-    // 1. Already full shape (trust caller)
-    if (b && (b as any).name && (b as any).buttonParamsJson) return b;
-    
-    // 2. Simple legacy shape
-    if (b && (b as any).id && (b as any).title) {
-      const buttonParams = {
-        id: (b as any).id,
-        title: (b as any).title,
-        subtitle: (b as any).subtitle || null,
-        disabled: (b as any).disabled || false
-      };
-      
-      return {
-        name: getButtonType(b),
-        buttonParamsJson: JSON.stringify(buttonParams)
-      };
-    }
-    
-    // 3. Old Baileys shape
-    if (b && (b as any).buttonId && (b as any).buttonText) {
-      const buttonParams = {
-        id: (b as any).buttonId,
-        title: (b as any).buttonText.displayText || (b as any).buttonText,
-        subtitle: (b as any).subtitle || null,
-        disabled: (b as any).disabled || false
-      };
-      
-      return {
-        name: getButtonType(b),
-        buttonParamsJson: JSON.stringify(buttonParams)
-      };
-    }
+export function buildInteractiveButtons(
+  buttons: Button[] = [],
+  format: MessageFormat = 'current',
+  transform?: ButtonTransformer
+): any[] {
+  // Legacy protos use their own button / section shapes
+  if (format === 'legacy') {
+    return buttons.map(toLegacyButton);
+  }
+  
+  if (format === 'custom' && !transform) {
+    throw new InteractiveValidationError(
+      "The 'custom' format requires a transform function",
+      'buildInteractiveButtons',
+      [{ path: 'transform', message: 'Transform function is required', expected: 'function', value: transform }]
+    );
+  }
+  
+  return buttons.map((b, index) => {
+    const entry = toNativeFlowButton(b);
     
-    // 4. Pass through anything else
-    return b;
+    // Custom format: the caller reshapes each entry, starting from the native flow default
+    return format === 'custom' ? transform!(b, entry, index) : entry;
   });
 }
 
+/**
+ * Normalize a single button into its native flow entry
+ */
+function toNativeFlowButton(b: Button): any {
+  // 1. Already full shape (trust caller)
+  if (b && (b as any).name && (b as any).buttonParamsJson) return b;
+  
+  // 2. Typed / simple legacy shape: serialize per button type
+  if (b && (b as any).id && (b as any).title) {
+    return serializeButton(b, getButtonType(b));
+  }
+  
+  // 3. Old Baileys shape
+  if (b && (b as any).buttonId && (b as any).buttonText) {
+    return serializeButton({
+      type: 'quick_reply',
+      id: (b as any).buttonId,
+      title: (b as any).buttonText.displayText || (b as any).buttonText
+    }, 'quick_reply');
+  }
+  
+  // 4. Pass through anything else
+  return b;
+}
+
 /**
  * Detect the button type based on button properties
  */
@@ -109,36 +139,226 @@ export function getButtonType(button: any): ButtonType {
   if (button.reminderId) return 'cta_cancel_reminder';
   if (button.addressId) return 'address_message';
   if (button.options) return 'single_select';
+  if (button.flowId) return 'flow';
   
   // Default to quick_reply
   return 'quick_reply';
 }
 
+/**
+ * Check whether a button is of the given type (explicit or inferred from its fields)
+ */
+export function isButtonOfType<K extends ButtonType>(button: Button | undefined, type: K): button is Extract<Button, { type: K }> {
+  return !!button && getButtonType(button) === type;
+}
+
+/**
+ * Button names that WhatsApp renders through a dedicated native_flow node
+ * instead of the generic "mixed" one
+ */
+const NATIVE_FLOW_SPECIALS: ButtonType[] = [
+  'mpm',
+  'cta_catalog',
+  'send_location',
+  'wa_payment_transaction_details',
+  'automated_greeting_message_view_catalog'
+];
+
+/**
+ * Check whether a JID addresses a group chat
+ */
+export function isJidGroup(jid: string): boolean {
+  return typeof jid === 'string' && jid.endsWith('@g.us');
+}
+
+/**
+ * Explain why a JID cannot receive interactive messages, if it cannot
+ */
+export function getUnsupportedRecipientReason(jid: string): string | undefined {
+  if (typeof jid !== 'string' || !/^[^@\s]+@[\w.]+$/.test(jid)) return 'Malformed JID';
+  if (jid.endsWith('@broadcast')) return 'Broadcast lists and status updates cannot show interactive messages';
+  if (jid.endsWith('@newsletter')) return 'Channels cannot show interactive messages';
+  return undefined;
+}
+
+/**
+ * Create the "biz" binary node WhatsApp expects next to an interactive message.
+ * The node variant is chosen from the first button, mirroring the official client:
+ *  - review_and_pay / payment_info: biz node carrying native_flow_name
+ *  - specialised flows (mpm, catalog, location, ...): native_flow v2 named after the button
+ *  - everything else: generic native_flow v9 "mixed"
+ * 
+ * Legacy list messages get a product_list node instead.
+ * 
+ * @param buttons Buttons of the message being sent
+ * @param _config Message configuration (accepted for API parity, does not affect the node)
+ * @param format Output format the message content was built with
+ */
+export function createBinaryNode(
+  buttons: Button[],
+  _config?: InteractiveMessageConfig,
+  format: MessageFormat = 'current'
+): BinaryNode {
+  const firstButtonName = buttons.length > 0 ? getButtonType(buttons[0]) : undefined;
+  
+  // Legacy listMessage
+  if (format === 'legacy' && firstButtonName === 'single_select') {
+    return {
+      tag: 'biz',
+      attrs: {},
+      content: [{
+        tag: 'list',
+        attrs: {
+          v: '2',
+          type: 'product_list'
+        }
+      }]
+    };
+  }
+  
+  // Payment / order flows attach native_flow_name directly
+  if (firstButtonName === 'review_and_pay' || firstButtonName === 'payment_info') {
+    return {
+      tag: 'biz',
+      attrs: {
+        native_flow_name: firstButtonName === 'review_and_pay' ? 'order_details' : firstButtonName
+      }
+    };
+  }
+  
+  // Specialised flows get a dedicated node, everything else the generic "mixed" one
+  const nativeFlowAttrs = firstButtonName && NATIVE_FLOW_SPECIALS.includes(firstButtonName)
+    ? { v: '2', name: firstButtonName }
+    : { v: '9', name: 'mixed' };
+  
+  return {
+    tag: 'biz',
+    attrs: {},
+    content: [{
+      tag: 'interactive',
+      attrs: {
+        type: 'native_flow',
+        v: '1'
+      },
+      content: [{
+        tag: 'native_flow',
+        attrs: nativeFlowAttrs
+      }]
+    }]
+  };
+}
+
+/**
+ * Build the additional nodes relayed with an interactive message.
+ * Group chats only get the biz node; private chats also need a bot node.
+ */
+export function buildAdditionalNodes(
+  jid: string,
+  buttons: Button[],
+  config?: InteractiveMessageConfig,
+  format: MessageFormat = 'current'
+): BinaryNode[] {
+  const nodes: BinaryNode[] = [createBinaryNode(buttons, config, format)];
+  
+  if (!isJidGroup(jid)) {
+    nodes.push({ tag: 'bot', attrs: { biz_bot: '1' } });
+  }
+  
+  return nodes;
+}
+
 /**
  * Validate button ID format
  */
 export function isValidButtonId(id: string): boolean {
-  return typeof id === 'string' && id.length > 0 && id.length <= 64;
+  return typeof id === 'string' && id.length > 0 && id.length <= MESSAGE_LIMITS.buttonId;
+}
+
+/**
+ * Evaluate field rules against an object, collecting errors and warnings.
+ * Returns the names of required fields that are missing.
+ */
+export function applyFieldRules(
+  rules: FieldRule[],
+  target: any,
+  pathPrefix: string,
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): string[] {
+  const missing: string[] = [];
+  
+  rules.forEach(rule => {
+    const value = target?.[rule.field];
+    const path = `${pathPrefix}${rule.field}`;
+    
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) missing.push(rule.field);
+      return;
+    }
+    
+    const result = checkFieldRule(rule, value, path);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+  });
+  
+  return missing;
 }
 
 /**
- * Validate interactive message configuration
+ * Validate interactive message configuration against the platform rules
+ * in CONFIG_RULES, BASE_BUTTON_RULES, BUTTON_RULES and COUNT_RULES.
+ * When a button misses required fields, `example` holds a correct button
+ * of the same type.
  */
 export function validateInteractiveMessage(
   config: InteractiveMessageConfig, 
   buttons: Button[]
 ): ValidationResult {
-  const errors: any[] = [];
-  const warnings: any[] = [];
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  let example: any;
   
-  // Validate body
-  if (!config.body || typeof config.body !== 'string') {
-    errors.push({
-      path: 'body',
-      message: 'Body text is required and must be a string',
-      expected: 'string',
-      value: config.body
-    });
+  // Validate message fields
+  const missingConfig = applyFieldRules(CONFIG_RULES, config, '', errors, warnings);
+  missingConfig.forEach(field => {
+    const configError = InteractiveValidationError.createConfigValidationError(
+      field,
+      CONFIG_RULES.find(rule => rule.field === field)?.message || `${field} is required`,
+      'string',
+      (config as any)?.[field]
+    );
+    errors.push(...configError.errors.map(error => ({ ...error, path: field })));
+    example = example ?? configError.example;
+  });
+  
+  // Validate header media
+  const headerMedia = config.headerMedia;
+  if (headerMedia?.mediaType === 'location') {
+    if (typeof headerMedia.latitude !== 'number' || typeof headerMedia.longitude !== 'number') {
+      errors.push({
+        path: 'headerMedia',
+        message: 'Location header requires numeric latitude and longitude',
+        expected: '{ latitude: number, longitude: number }',
+        value: headerMedia
+      });
+    }
+  } else if (headerMedia) {
+    if (!['image', 'video', 'document'].includes(headerMedia.mediaType)) {
+      errors.push({
+        path: 'headerMedia.mediaType',
+        message: 'Header media type must be image, video, document or location',
+        expected: "'image' | 'video' | 'document' | 'location'",
+        value: headerMedia.mediaType
+      });
+    }
+    if ((headerMedia.media ?? headerMedia.mediaUrl) === undefined) {
+      errors.push({
+        path: 'headerMedia.media',
+        message: 'Header media requires a URL, file path, Buffer or stream',
+        expected: 'string | Buffer | stream',
+        value: headerMedia.media
+      });
+    }
   }
   
   // Validate buttons
@@ -149,82 +369,140 @@ export function validateInteractiveMessage(
       expected: 'array with minimum 1 item',
       value: buttons
     });
+    return { isValid: false, errors, warnings, ...(example !== undefined && { example }) };
   }
   
+  const seenIds = new Map<string, number>();
+  const typeCounts = new Map<ButtonType, number>();
+  
   // Validate individual buttons
   buttons.forEach((button, index) => {
-    if (!isValidButtonId(button.id)) {
-      errors.push({
-        path: `buttons[${index}].id`,
-        message: 'Button ID must be a non-empty string (max 64 chars)',
-        expected: 'string (1-64 chars)',
-        value: button.id
-      });
+    const buttonType = getButtonType(button);
+    typeCounts.set(buttonType, (typeCounts.get(buttonType) || 0) + 1);
+    
+    // Shared fields (id, title, ...)
+    BASE_BUTTON_RULES.forEach(rule => {
+      const value = (button as any)?.[rule.field];
+      const path = `buttons[${index}].${rule.field}`;
+      if (value === undefined || value === null || value === '') {
+        if (rule.required) {
+          errors.push({ path, message: rule.message || `${rule.field} is required`, expected: describeRule(rule), value });
+        }
+        return;
+      }
+      const result = checkFieldRule(rule, value, path);
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+    });
+    
+    // Duplicate ids
+    if (typeof button.id === 'string') {
+      const firstIndex = seenIds.get(button.id);
+      if (firstIndex !== undefined) {
+        errors.push({
+          path: `buttons[${index}].id`,
+          message: `Button ID duplicates buttons[${firstIndex}].id`,
+          expected: 'unique string',
+          value: button.id
+        });
+      } else {
+        seenIds.set(button.id, index);
+      }
     }
     
-    if (!button.title || typeof button.title !== 'string') {
+    // Type-specific fields
+    const typeRules = BUTTON_RULES[buttonType];
+    if (!typeRules) {
       errors.push({
-        path: `buttons[${index}].title`,
-        message: 'Button title is required and must be a string',
-        expected: 'string',
-        value: button.title
+        path: `buttons[${index}].type`,
+        message: 'Unknown button type',
+        expected: Object.keys(BUTTON_RULES),
+        value: buttonType
       });
+      return;
     }
     
-    // Type-specific validation
-    const buttonType = getButtonType(button);
-    switch (buttonType) {
-      case 'cta_url':
-        if (!button.url || typeof button.url !== 'string') {
-          errors.push({
-            path: `buttons[${index}].url`,
-            message: 'URL button requires a valid URL string',
-            expected: 'string (URL format)',
-            value: button.url
-          });
-        }
-        break;
-        
-      case 'cta_call':
-        if (!button.phoneNumber || !/^\+?[1-9]\d{1,14}$/.test(button.phoneNumber)) {
+    const missing = applyFieldRules(typeRules, button, `buttons[${index}].`, errors, warnings);
+    if (missing.length > 0) {
+      const buttonError = InteractiveValidationError.createButtonValidationError(
+        buttonType,
+        typeRules.filter(rule => rule.required).map(rule => rule.field),
+        Object.keys(button).filter(field => !missing.includes(field))
+      );
+      errors.push(...buttonError.errors.map(error => ({
+        ...error,
+        path: error.path.replace(/^button\./, `buttons[${index}].`)
+      })));
+      example = example ?? buttonError.example;
+    }
+    
+    // Single select options follow the list row rules
+    if (buttonType === 'single_select') {
+      const options = (button as SingleSelectButton).options;
+      if (Array.isArray(options)) {
+        if (options.length === 0) {
           errors.push({
-            path: `buttons[${index}].phoneNumber`,
-            message: 'Call button requires a valid phone number',
-            expected: 'string (E.164 format)',
-            value: button.phoneNumber
+            path: `buttons[${index}].options`,
+            message: 'Single select button requires at least one option',
+            expected: 'array with minimum 1 item',
+            value: options
           });
-        }
-        break;
-        
-      case 'cta_copy':
-        if (!button.copyText || typeof button.copyText !== 'string') {
+        } else if (options.length > LIST_LIMITS.maxRows) {
           errors.push({
-            path: `buttons[${index}].copyText`,
-            message: 'Copy button requires copyText string',
-            expected: 'string',
-            value: button.copyText
+            path: `buttons[${index}].options`,
+            message: `Single select button supports at most ${LIST_LIMITS.maxRows} options`,
+            expected: `array with maximum ${LIST_LIMITS.maxRows} items`,
+            value: options.length
           });
         }
-        break;
+        errors.push(...validateListRows(options, `buttons[${index}].options`));
+      }
+    }
+  });
+  
+  // Button counts per type mix
+  COUNT_RULES.forEach(rule => {
+    if (rule.mixedWith && !rule.mixedWith.some(type => typeCounts.has(type))) return;
+    
+    const count = rule.types
+      ? rule.types.reduce((total, type) => total + (typeCounts.get(type) || 0), 0)
+      : buttons.length;
+    if (count <= rule.max) return;
+    
+    if (rule.severity === 'error') {
+      errors.push({
+        path: 'buttons',
+        message: rule.message,
+        expected: `maximum ${rule.max}`,
+        value: count
+      });
+    } else {
+      warnings.push({
+        path: 'buttons',
+        message: rule.message,
+        ...(rule.suggestion !== undefined && { suggestion: rule.suggestion })
+      });
     }
   });
   
   return {
     isValid: errors.length === 0,
     errors,
-    warnings
+    warnings,
+    ...(example !== undefined && { example })
   };
 }
 
 /**
  * Main simplified helper for common quick-reply usage
  */
-export async function sendInteractiveButtonsBasic(params: SendInteractiveButtonsBasicParams): Promise<any> {
-  const { socket, jid, config, buttons } = params;
+export async function sendInteractiveButtonsBasic(params: SendInteractiveButtonsBasicParams): Promise<SentInteractiveMessage> {
+  const { socket, jid, config, buttons, baileys, ephemeralExpiration } = params;
   
   // Validate input
   const validation = validateInteractiveMessage(config, buttons);
   if (!validation.isValid) {
+    recordValidationFailure('sendInteractiveButtonsBasic', validation.errors);
     throw new InteractiveValidationError(
       'Invalid interactive message configuration',
       'sendInteractiveButtonsBasic',
@@ -233,94 +511,376 @@ export async function sendInteractiveButtonsBasic(params: SendInteractiveButtons
     );
   }
   
-  // Normalize buttons and build message
-  const normalizedButtons = buildInteractiveButtons(buttons);
-  const messageContent = buildMessageContent(config, normalizedButtons);
-  
   // Send message
   return sendInteractiveMessage({
     socket,
     jid,
     config,
     buttons,
-    format: 'current'
+    format: 'current',
+    ...(baileys && { baileys }),
+    ...(ephemeralExpiration !== undefined && { ephemeralExpiration })
   });
 }
 
 /**
  * Lower-level power function for full control
  */
-export async function sendInteractiveMessage(params: SendInteractiveMessageParams): Promise<any> {
-  const { socket, jid, config, buttons, format = 'current' } = params;
+export async function sendInteractiveMessage(params: SendInteractiveMessageParams): Promise<SentInteractiveMessage> {
+  const { jid, format = 'current', fallback } = params;
+  const middleware = createMiddlewareContext('sendInteractiveMessage', jid);
+  
+  // The fallback is sent with the message as rewritten by the beforeValidate hooks
+  const sendFallback = () => sendFallbackMessage(
+    {
+      ...params,
+      config: middleware.config ?? params.config,
+      buttons: middleware.buttons ?? params.buttons
+    },
+    fallback?.strategy,
+    middleware
+  );
+  
+  try {
+    // Degrade to a poll / text menu up front when the recipient cannot render buttons
+    if (fallback && shouldUseFallback(fallback, jid)) {
+      middleware.config = params.config;
+      middleware.buttons = params.buttons;
+      await runMiddleware('beforeValidate', middleware);
+      return await sendFallback();
+    }
+    
+    const messageContent = await prepareInteractiveContent(params, 'sendInteractiveMessage', middleware);
+    const { config, buttons } = middleware as Required<MiddlewareContext>;
+    
+    // A relay error recovered by the fallback is not reported to onError
+    try {
+      return await relayWithMiddleware(
+        params.socket,
+        jid,
+        messageContent,
+        buildAdditionalNodes(jid, buttons, config, format),
+        params,
+        middleware
+      );
+    } catch (error) {
+      if (!shouldFallBackOnError(fallback, error)) throw error;
+      return await sendFallback();
+    }
+  } catch (error) {
+    await reportMiddlewareError(middleware, error);
+    throw error;
+  }
+}
+
+/**
+ * Build the content of an interactive message in the requested format,
+ * uploading header media through the socket first
+ * 
+ * @param context Name of the calling function, reported in validation errors
+ * @param middleware Context of the send, passed to the beforeValidate and afterNormalize hooks
+ *                   (its config and buttons hold the message as rewritten by them)
+ * @param preparedHeader Header media already uploaded for params.config.headerMedia,
+ *                       reused unless the hooks replace the header
+ */
+export async function prepareInteractiveContent(
+  params: SendInteractiveMessageParams,
+  context: BuiltMiddlewareOperation,
+  middleware: MiddlewareContext = createMiddlewareContext(context, params.jid),
+  preparedHeader?: PreparedHeaderMedia
+): Promise<MessageContent> {
+  const { socket, format = 'current', transform, baileys } = params;
   
-  // Import Baileys modules dynamically for compatibility
-  const baileysModules = await importBaileysModules();
-  if (baileysModules.length === 0) {
-    throw new Error('No Baileys module found. Please install baileys, @whiskeysockets/baileys, or @adiwajshing/baileys');
+  middleware.config = params.config;
+  middleware.buttons = params.buttons;
+  
+  // Middleware may rewrite the message, which is then validated again
+  if (await runMiddleware('beforeValidate', middleware)) {
+    const validation = validateInteractiveMessage(middleware.config, middleware.buttons);
+    if (!validation.isValid) {
+      recordValidationFailure(context, validation.errors);
+      throw new InteractiveValidationError(
+        'Invalid interactive message configuration after middleware',
+        context,
+        validation.errors,
+        validation.warnings
+      );
+    }
   }
+  const { config, buttons } = middleware as Required<MiddlewareContext>;
   
-  const baileys = baileysModules[0]; // Use first available module
+  // Legacy protos only carry reply buttons or a single list
+  if (format === 'legacy') {
+    const legacyValidation = validateLegacyButtons(buttons);
+    if (!legacyValidation.isValid) {
+      recordValidationFailure(context, legacyValidation.errors);
+      throw new InteractiveValidationError(
+        'Buttons are not supported by the legacy format',
+        context,
+        legacyValidation.errors,
+        legacyValidation.warnings
+      );
+    }
+  }
   
+  // Upload header media through the socket before building
+  const header = preparedHeader && config.headerMedia === params.config.headerMedia ? preparedHeader
+    : config.headerMedia ? await prepareHeaderMedia(socket, config.headerMedia, baileys)
+    : undefined;
+  
+  middleware.normalizedButtons = buildInteractiveButtons(buttons, format, transform);
+  await runMiddleware('afterNormalize', middleware);
+  
+  return buildNormalizedContent(config, middleware.normalizedButtons, format, header);
+}
+
+/**
+ * Normalize buttons and build message content for an output format
+ * (no validation or upload: header media must already be prepared)
+ */
+export function buildFormattedContent(
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  format: MessageFormat = 'current',
+  transform?: ButtonTransformer,
+  preparedHeader?: PreparedHeaderMedia
+): MessageContent {
   // Normalize buttons according to format
-  const normalizedButtons = format === 'legacy' ? buttons : buildInteractiveButtons(buttons);
+  const normalizedButtons = buildInteractiveButtons(buttons, format, transform);
   
-  // Build message content
-  const messageContent = buildMessageContent(config, normalizedButtons);
+  return buildNormalizedContent(config, normalizedButtons, format, preparedHeader);
+}
+
+/**
+ * Build message content from buttons already normalized for the format
+ */
+function buildNormalizedContent(
+  config: InteractiveMessageConfig,
+  normalizedButtons: any[],
+  format: MessageFormat,
+  preparedHeader?: PreparedHeaderMedia
+): MessageContent {
+  const messageContent = format === 'legacy'
+    ? buildLegacyMessageContent(config, normalizedButtons, preparedHeader)
+    : buildMessageContent(config, normalizedButtons, preparedHeader);
   
-  // Generate message from content
-  const message = baileys.generateWAMessageFromContent(jid, messageContent, {
-    ephemeralExpiration: 86400 // 24 hours
-  });
+  // Custom entries are relayed exactly as the transform returned them
+  if (format === 'custom') {
+    messageContent.interactiveMessage!.nativeFlowMessage!.buttons = normalizedButtons;
+  }
   
-  // Send message via relayMessage (bypasses validation)
-  return await socket.relayMessage(jid, message.key, {
-    additionalNodes: [message.message]
-  });
+  return messageContent;
 }
 
 /**
- * Build message content object
+ * Default lifetime (seconds) of messages sent into chats with disappearing messages
  */
-function buildMessageContent(config: InteractiveMessageConfig, buttons: any[]): MessageContent {
-  const messageContent: MessageContent = {
-    interactive: {
-      nativeFlow: {
-        buttons: buttons.map(button => ({
-          name: button.name,
-          buttonParamsJson: button.buttonParamsJson
-        })),
-        messageParams: {
-          body: { text: config.body }
-        }
-      }
+export const DEFAULT_EPHEMERAL_EXPIRATION = 86400; // 24 hours
+
+/**
+ * Statuses of relay failures that sending again cannot fix (bad request, logged out, forbidden, not found)
+ */
+const PERMANENT_RELAY_STATUSES = [400, 401, 403, 404];
+
+/**
+ * Check whether a relay failure may succeed on a later attempt (Boom errors carry a status code)
+ */
+function isRetryableRelayFailure(error: any): boolean {
+  const status = error?.output?.statusCode ?? error?.statusCode;
+  return !PERMANENT_RELAY_STATUSES.includes(status);
+}
+
+/**
+ * Generate a WAMessage from built content and relay it with the given binary nodes
+ * 
+ * @param options Adapter to use (defaults to the configured / auto-detected one),
+ *                ephemeral expiration and extra stanza attributes
+ * @param middleware Context of the send, passed to the beforeRelay, afterSend and onError hooks
+ * @returns What was sent: key, ID, timestamp, recipient and built content
+ */
+export async function relayMessageContent(
+  socket: WASocket,
+  jid: string,
+  messageContent: MessageContent,
+  additionalNodes: BinaryNode[],
+  options: RelayContentOptions = {},
+  middleware: MiddlewareContext = createMiddlewareContext('relayMessageContent', jid)
+): Promise<SentInteractiveMessage> {
+  try {
+    return await relayWithMiddleware(socket, jid, messageContent, additionalNodes, options, middleware);
+  } catch (error) {
+    await reportMiddlewareError(middleware, error);
+    throw error;
+  }
+}
+
+/**
+ * Relay built content like relayMessageContent, leaving onError to the caller
+ * (which may still recover, e.g. by falling back or retrying)
+ */
+export async function relayWithMiddleware(
+  socket: WASocket,
+  jid: string,
+  messageContent: MessageContent,
+  additionalNodes: BinaryNode[],
+  options: RelayContentOptions,
+  middleware: MiddlewareContext
+): Promise<SentInteractiveMessage> {
+  middleware.content = messageContent;
+  middleware.additionalNodes = additionalNodes;
+  middleware.relayOptions = { ...options };
+  
+  const { operation } = middleware;
+  const logger = getLogger();
+  
+  try {
+    await runMiddleware('beforeRelay', middleware);
+    
+    const { content, relayOptions } = middleware as Required<MiddlewareContext>;
+    
+    // Revokes and edits are protocol messages, any chat can receive them
+    const unsupportedReason = content.protocolMessage ? undefined : getUnsupportedRecipientReason(jid);
+    if (unsupportedReason) {
+      throw new UnsupportedRecipientError(`Cannot send to ${jid}: ${unsupportedReason}`, operation, jid, unsupportedReason);
+    }
+    
+    const { ephemeralExpiration = DEFAULT_EPHEMERAL_EXPIRATION, additionalAttributes } = relayOptions;
+    const adapter = relayOptions.baileys || await getBaileysAdapter();
+    
+    // Generate message from content
+    const message = adapter.generateWAMessageFromContent(jid, content, {
+      userJid: socket.user?.id,
+      ephemeralExpiration
+    });
+    logger.debug({ operation, jid, content }, 'relaying message');
+    
+    // Send message via relayMessage (bypasses validation), injecting the biz / bot nodes
+    const startedAt = process.hrtime.bigint();
+    try {
+      await adapter.relayMessage(socket, jid, message, middleware.additionalNodes ?? [], additionalAttributes);
+    } catch (error) {
+      if (error instanceof BaileysCapabilityError) throw error;
+      throw new RelayError(`Relaying the message to ${jid} failed`, operation, jid, {
+        key: message.key,
+        retryable: isRetryableRelayFailure(error),
+        cause: error
+      });
+    }
+    const durationSeconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    
+    recordSent(operation, content, durationSeconds);
+    logger.info({ operation, jid, messageId: message.key.id, durationMs: durationSeconds * 1000 }, 'message sent');
+    
+    const sent = toSentInteractiveMessage(jid, message, content);
+    middleware.result = sent;
+    await runMiddleware('afterSend', middleware);
+    return middleware.result ?? sent;
+  } catch (error) {
+    recordSendFailure(operation);
+    logger.error({ operation, jid, err: error }, 'send failed');
+    throw error;
+  }
+}
+
+/**
+ * Describe a relayed message (the timestamp falls back to now when Baileys did not set one)
+ */
+export function toSentInteractiveMessage(
+  jid: string,
+  message: WAMessage,
+  content: MessageContent
+): SentInteractiveMessage {
+  const { messageTimestamp } = message;
+  const timestamp = typeof messageTimestamp === 'number' ? messageTimestamp
+    : messageTimestamp ? messageTimestamp.toNumber()
+    : Math.floor(Date.now() / 1000);
+  
+  return {
+    key: message.key,
+    messageId: message.key.id || '',
+    timestamp,
+    jid,
+    content,
+    message
+  };
+}
+
+/**
+ * Build message content object (an interactiveMessage proto)
+ * 
+ * @param config Message configuration
+ * @param buttons Normalized native flow buttons
+ * @param preparedHeader Header media prepared by prepareHeaderMedia
+ */
+export function buildMessageContent(
+  config: InteractiveMessageConfig,
+  buttons: any[],
+  preparedHeader?: PreparedHeaderMedia
+): MessageContent {
+  return { interactiveMessage: convertToInteractiveMessage(config, buttons, preparedHeader) };
+}
+
+/**
+ * Convert a message configuration and its normalized buttons into the
+ * interactiveMessage proto: header, body, footer and nativeFlowMessage
+ * 
+ * @param config Message configuration
+ * @param buttons Normalized native flow buttons
+ * @param preparedHeader Header media prepared by prepareHeaderMedia
+ */
+export function convertToInteractiveMessage(
+  config: InteractiveMessageConfig,
+  buttons: any[],
+  preparedHeader?: PreparedHeaderMedia
+): InteractiveMessageContent {
+  const interactiveMessage: InteractiveMessageContent = {
+    body: { text: config.body },
+    nativeFlowMessage: {
+      buttons: buttons.map(button => ({
+        name: button.name,
+        buttonParamsJson: button.buttonParamsJson
+      })),
+      messageParamsJson: ''
     }
   };
   
   // Add optional footer
   if (config.footer) {
-    messageContent.interactive!.nativeFlow!.messageParams!.footer = { text: config.footer };
+    interactiveMessage.footer = { text: config.footer };
   }
   
-  // Add optional header
-  if (config.headerText) {
-    messageContent.interactive!.nativeFlow!.messageParams!.header = { 
-      type: config.headerType || 1,
-      text: config.headerText 
-    };
+  // Add optional header (title text and / or media)
+  if (config.headerText || config.headerMedia) {
+    interactiveMessage.header = buildInteractiveHeader(config, preparedHeader);
   }
   
-  // Add optional media
-  if (config.headerMedia) {
-    messageContent.interactive!.nativeFlow!.messageParams!.header = {
-      type: config.headerMedia.mediaType === 'image' ? 1 : 
-            config.headerMedia.mediaType === 'video' ? 2 : 3,
-      text: config.headerText || '',
-      media: {
-        url: config.headerMedia.mediaUrl,
-        caption: config.headerMedia.mediaCaption || ''
+  return interactiveMessage;
+}
+
+/**
+ * Build the interactiveMessage header. Media headers carry the uploaded media
+ * message when prepared, the raw media URL otherwise (e.g. for previews).
+ */
+function buildInteractiveHeader(
+  config: InteractiveMessageConfig,
+  preparedHeader?: PreparedHeaderMedia
+): InteractiveMessageHeader {
+  const { headerMedia } = config;
+  const header: InteractiveMessageHeader = {
+    title: config.headerText || '',
+    hasMediaAttachment: !!headerMedia
+  };
+  
+  if (preparedHeader) {
+    Object.assign(header, preparedHeader);
+  } else if (headerMedia && headerMedia.mediaType !== 'location' && typeof (headerMedia.media ?? headerMedia.mediaUrl) === 'string') {
+    Object.assign(header, {
+      [`${headerMedia.mediaType}Message`]: {
+        url: headerMedia.media ?? headerMedia.mediaUrl,
+        caption: headerMedia.mediaCaption || ''
       }
-    };
+    });
   }
   
-  return messageContent;
-}
\ No newline at end of file
+  return header;
+}
@@ -0,0 +1,213 @@
+/**
+ * Carousel (horizontally scrolling cards) interactive messages.
+ *
+ * Each card carries its own header media, body, footer and buttons and is
+ * converted like a single interactiveMessage.
+ */
+
+import {
+  CarouselCard,
+  CarouselConfig,
+  InteractiveMessageConfig,
+  InteractiveMessageContent,
+  MessageContent,
+  PreparedHeaderMedia,
+  SendCarouselParams,
+  SentInteractiveMessage,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import {
+  buildAdditionalNodes,
+  buildInteractiveButtons,
+  convertToInteractiveMessage,
+  relayMessageContent,
+  validateInteractiveMessage
+} from './buttons.js';
+import { prepareHeaderMedia } from './media.js';
+import { recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext } from './middleware.js';
+
+/**
+ * Maximum number of cards WhatsApp renders in a carousel
+ */
+export const MAX_CAROUSEL_CARDS = 10;
+
+/**
+ * Maximum number of buttons on a single carousel card
+ */
+export const MAX_CAROUSEL_CARD_BUTTONS = 2;
+
+/**
+ * Convert a card into the message configuration used by the content builder
+ */
+function cardToConfig(card: CarouselCard): InteractiveMessageConfig {
+  const config: InteractiveMessageConfig = { body: card.body };
+  if (card.footer !== undefined) config.footer = card.footer;
+  if (card.headerText !== undefined) config.headerText = card.headerText;
+  if (card.headerMedia !== undefined) config.headerMedia = card.headerMedia;
+  return config;
+}
+
+/**
+ * Validate a carousel and each of its cards
+ */
+export function validateCarousel(config: CarouselConfig): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  // Validate body
+  if (!config.body || typeof config.body !== 'string') {
+    errors.push({
+      path: 'body',
+      message: 'Body text is required and must be a string',
+      expected: 'string',
+      value: config.body
+    });
+  }
+
+  // Validate card count
+  if (!Array.isArray(config.cards) || config.cards.length === 0) {
+    errors.push({
+      path: 'cards',
+      message: 'At least one card is required',
+      expected: 'array with minimum 1 item',
+      value: config.cards
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  if (config.cards.length > MAX_CAROUSEL_CARDS) {
+    errors.push({
+      path: 'cards',
+      message: `A carousel supports at most ${MAX_CAROUSEL_CARDS} cards`,
+      expected: `array with maximum ${MAX_CAROUSEL_CARDS} items`,
+      value: config.cards.length
+    });
+  }
+
+  if (config.cards.length === 1) {
+    warnings.push({
+      path: 'cards',
+      message: 'Carousel has a single card',
+      suggestion: 'Use sendInteractiveMessage for a single interactive message'
+    });
+  }
+
+  const firstCard = config.cards[0];
+  const mediaType = firstCard?.headerMedia?.mediaType;
+  const buttonCount = firstCard?.buttons?.length;
+
+  // Validate individual cards
+  config.cards.forEach((card, index) => {
+    const cardResult = validateInteractiveMessage(cardToConfig(card), card.buttons || []);
+    cardResult.errors.forEach(error => errors.push({ ...error, path: `cards[${index}].${error.path}` }));
+    cardResult.warnings.forEach(warning => warnings.push({ ...warning, path: `cards[${index}].${warning.path}` }));
+
+    if (!card.headerMedia) {
+      errors.push({
+        path: `cards[${index}].headerMedia`,
+        message: 'Carousel cards require header media',
+        expected: "{ mediaType: 'image' | 'video', media: string | Buffer | stream }",
+        value: card.headerMedia
+      });
+    } else if (card.headerMedia.mediaType !== mediaType) {
+      errors.push({
+        path: `cards[${index}].headerMedia.mediaType`,
+        message: 'All carousel cards must use the same header media type',
+        expected: mediaType,
+        value: card.headerMedia.mediaType
+      });
+    }
+
+    if (Array.isArray(card.buttons) && card.buttons.length > MAX_CAROUSEL_CARD_BUTTONS) {
+      errors.push({
+        path: `cards[${index}].buttons`,
+        message: `Carousel cards support at most ${MAX_CAROUSEL_CARD_BUTTONS} buttons`,
+        expected: `array with maximum ${MAX_CAROUSEL_CARD_BUTTONS} items`,
+        value: card.buttons.length
+      });
+    } else if (Array.isArray(card.buttons) && card.buttons.length !== buttonCount) {
+      warnings.push({
+        path: `cards[${index}].buttons`,
+        message: 'Cards have different button counts',
+        suggestion: 'Use the same number of buttons on every card so they render consistently'
+      });
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Build carousel message content: an interactiveMessage whose carouselMessage
+ * holds one interactiveMessage (header, body, footer, nativeFlowMessage) per card
+ *
+ * @param config Carousel configuration
+ * @param preparedHeaders Header media prepared by prepareHeaderMedia, by card index
+ */
+export function buildCarouselContent(
+  config: CarouselConfig,
+  preparedHeaders: Array<PreparedHeaderMedia | undefined> = []
+): MessageContent {
+  const interactiveMessage: InteractiveMessageContent = {
+    body: { text: config.body },
+    carouselMessage: {
+      cards: config.cards.map((card, index) => convertToInteractiveMessage(
+        cardToConfig(card),
+        buildInteractiveButtons(card.buttons),
+        preparedHeaders[index]
+      )),
+      messageVersion: 1
+    }
+  };
+
+  // Add optional footer
+  if (config.footer) {
+    interactiveMessage.footer = { text: config.footer };
+  }
+
+  return { interactiveMessage };
+}
+
+/**
+ * Send a carousel of interactive cards
+ */
+export async function sendCarousel(params: SendCarouselParams): Promise<SentInteractiveMessage> {
+  const { socket, jid, config, baileys } = params;
+
+  // Validate input
+  const validation = validateCarousel(config);
+  if (!validation.isValid) {
+    recordValidationFailure('sendCarousel', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid carousel configuration',
+      'sendCarousel',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  // Upload every card's header media through the socket before building
+  const preparedHeaders = await Promise.all(config.cards.map(card =>
+    card.headerMedia ? prepareHeaderMedia(socket, card.headerMedia, baileys) : undefined
+  ));
+
+  const messageContent = buildCarouselContent(config, preparedHeaders);
+  const buttons = config.cards.flatMap(card => card.buttons);
+
+  return relayMessageContent(
+    socket,
+    jid,
+    messageContent,
+    buildAdditionalNodes(jid, buttons),
+    params,
+    createMiddlewareContext('sendCarousel', jid)
+  );
+}
@@ -0,0 +1,611 @@
+/**
+ * Commerce messages: catalog products, orders and payments.
+ *
+ *  - single product: a productMessage pointing at one catalog item
+ *  - multi-product:  an mpm native flow button listing catalog items in sections
+ *  - order details:  a review_and_pay button carrying line items and totals,
+ *                    computed here so what the customer pays always adds up
+ *
+ * parseCommerceResponse reads the order / payment status messages these flows produce.
+ */
+
+import {
+  CommerceResponse,
+  FieldRule,
+  MessageContent,
+  MPMButton,
+  MultiProductMessage,
+  OrderCharge,
+  OrderDetails,
+  OrderMessageStatus,
+  OrderSummary,
+  OrderTotals,
+  ProductMessage,
+  ReviewAndPayButton,
+  SendMultiProductMessageParams,
+  SendOrderDetailsParams,
+  SendProductMessageParams,
+  SentInteractiveMessage,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { applyFieldRules, relayMessageContent, sendInteractiveMessage } from './buttons.js';
+import { prepareHeaderMedia } from './media.js';
+import { recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext } from './middleware.js';
+import { safeJsonParse, unwrapMessageContent } from './responses.js';
+import { describeRule, MESSAGE_LIMITS } from './rules.js';
+import { fromAmount } from './serializers.js';
+
+/**
+ * Limits WhatsApp enforces on product and order messages
+ */
+export const COMMERCE_LIMITS = {
+  maxProductSections: 10,
+  maxProducts: 30,
+  sectionTitleLength: 24,
+  referenceIdLength: 35,
+  maxOrderItems: 999,
+  itemNameLength: 60
+};
+
+/**
+ * Largest difference tolerated between a declared and a computed order total
+ */
+const TOTAL_TOLERANCE = 0.005;
+
+/**
+ * Rules for single product messages
+ */
+export const PRODUCT_RULES: FieldRule[] = [
+  { field: 'businessOwnerJid', type: 'string', required: true, minLength: 1 },
+  { field: 'productId', type: 'string', required: true, minLength: 1 },
+  { field: 'title', type: 'string' },
+  { field: 'description', type: 'string' },
+  { field: 'price', type: 'number', minimum: 0 },
+  { field: 'salePrice', type: 'number', minimum: 0 },
+  { field: 'currency', type: 'string', format: 'currency' },
+  { field: 'retailerId', type: 'string' },
+  { field: 'url', type: 'string', format: 'url' },
+  { field: 'body', type: 'string', maxLength: MESSAGE_LIMITS.body },
+  { field: 'footer', type: 'string', maxLength: MESSAGE_LIMITS.footer }
+];
+
+/**
+ * Rules for multi-product messages (sections are checked separately)
+ */
+export const MULTI_PRODUCT_RULES: FieldRule[] = [
+  { field: 'businessOwnerJid', type: 'string', required: true, minLength: 1 },
+  { field: 'catalogId', type: 'string', minLength: 1 },
+  { field: 'headerText', type: 'string', required: true, minLength: 1, maxLength: MESSAGE_LIMITS.headerText },
+  { field: 'body', type: 'string', required: true, minLength: 1, maxLength: MESSAGE_LIMITS.body },
+  { field: 'footer', type: 'string', maxLength: MESSAGE_LIMITS.footer },
+  { field: 'buttonText', type: 'string', maxLength: MESSAGE_LIMITS.buttonTitle }
+];
+
+/**
+ * Rules for order details (items and charges are checked separately)
+ */
+export const ORDER_RULES: FieldRule[] = [
+  { field: 'referenceId', type: 'string', required: true, minLength: 1, maxLength: COMMERCE_LIMITS.referenceIdLength },
+  { field: 'currency', type: 'string', required: true, format: 'currency' },
+  { field: 'type', type: 'string', enum: ['digital-goods', 'physical-goods'] },
+  { field: 'paymentConfiguration', type: 'string', minLength: 1 },
+  { field: 'total', type: 'number', minimum: 0 }
+];
+
+/**
+ * Rules for order line items
+ */
+export const ORDER_ITEM_RULES: FieldRule[] = [
+  { field: 'retailerId', type: 'string', required: true, minLength: 1 },
+  { field: 'name', type: 'string', required: true, minLength: 1, maxLength: COMMERCE_LIMITS.itemNameLength },
+  { field: 'price', type: 'number', required: true, minimum: 0 },
+  { field: 'quantity', type: 'number', required: true, minimum: 1 },
+  { field: 'salePrice', type: 'number', minimum: 0 }
+];
+
+/**
+ * Rules for tax, discount and shipping charges
+ */
+const CHARGE_RULES: FieldRule[] = [
+  { field: 'amount', type: 'number', minimum: 0 },
+  { field: 'rate', type: 'number', minimum: 0, maximum: 100 },
+  { field: 'description', type: 'string' }
+];
+
+/**
+ * Order statuses of catalog order messages (proto OrderMessage.OrderStatus)
+ */
+const ORDER_MESSAGE_STATUSES: { [status: string]: OrderMessageStatus } = {
+  1: 'inquiry',
+  2: 'accepted',
+  3: 'declined',
+  INQUIRY: 'inquiry',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined'
+};
+
+/**
+ * Native flow reply names carrying a payment status
+ */
+const PAYMENT_FLOW_NAMES = ['review_and_pay', 'order_details', 'payment_info', 'payment_status', 'payment_method'];
+
+/**
+ * Evaluate field rules, reporting missing required fields as errors
+ */
+function checkRules(
+  rules: FieldRule[],
+  target: any,
+  pathPrefix: string,
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): void {
+  const missing = applyFieldRules(rules, target, pathPrefix, errors, warnings);
+  missing.forEach(field => {
+    const rule = rules.find(candidate => candidate.field === field)!;
+    errors.push({
+      path: `${pathPrefix}${field}`,
+      message: rule.message || `${field} is required`,
+      expected: describeRule(rule),
+      value: target?.[field]
+    });
+  });
+}
+
+/**
+ * Round to the cent precision WhatsApp amounts carry
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Resolve a fixed or percentage charge against its base amount
+ */
+function resolveCharge(charge: OrderCharge | undefined, base: number): number {
+  if (!charge) return 0;
+  return roundAmount(charge.amount ?? base * (charge.rate ?? 0) / 100);
+}
+
+/**
+ * Compute subtotal, discount, tax, shipping and total of an order.
+ * Items are charged at their sale price when they have one; tax applies
+ * to the subtotal after the discount.
+ */
+export function computeOrderTotals(order: OrderDetails): OrderTotals {
+  const subtotal = roundAmount(order.items.reduce(
+    (sum, item) => sum + (item.salePrice ?? item.price) * item.quantity, 0));
+  const discount = resolveCharge(order.discount, subtotal);
+  const tax = resolveCharge(order.tax, subtotal - discount);
+  const shipping = resolveCharge(order.shipping, subtotal);
+
+  return {
+    subtotal,
+    discount,
+    tax,
+    shipping,
+    total: roundAmount(subtotal - discount + tax + shipping)
+  };
+}
+
+/**
+ * Validate order details: line items, charges and (when declared) the total
+ */
+export function validateOrder(order: OrderDetails): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  checkRules(ORDER_RULES, order, '', errors, warnings);
+
+  if (!Array.isArray(order?.items) || order.items.length === 0) {
+    errors.push({
+      path: 'items',
+      message: 'An order requires at least one item',
+      expected: 'array with minimum 1 item',
+      value: order?.items
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  if (order.items.length > COMMERCE_LIMITS.maxOrderItems) {
+    errors.push({
+      path: 'items',
+      message: `An order supports at most ${COMMERCE_LIMITS.maxOrderItems} items`,
+      expected: `array with maximum ${COMMERCE_LIMITS.maxOrderItems} items`,
+      value: order.items.length
+    });
+  }
+
+  order.items.forEach((item, index) => {
+    const path = `items[${index}]`;
+    checkRules(ORDER_ITEM_RULES, item, `${path}.`, errors, warnings);
+
+    if (typeof item?.quantity === 'number' && !Number.isInteger(item.quantity)) {
+      errors.push({ path: `${path}.quantity`, message: 'Quantity must be a whole number', expected: 'integer', value: item.quantity });
+    }
+    if (typeof item?.salePrice === 'number' && typeof item.price === 'number' && item.salePrice > item.price) {
+      errors.push({
+        path: `${path}.salePrice`,
+        message: 'Sale price must not exceed the regular price',
+        expected: `number (0 to ${item.price})`,
+        value: item.salePrice
+      });
+    }
+  });
+
+  (['tax', 'discount', 'shipping'] as const).forEach(field => {
+    const charge = order[field];
+    if (charge === undefined) return;
+    checkRules(CHARGE_RULES, charge, `${field}.`, errors, warnings);
+    if ((charge.amount === undefined) === (charge.rate === undefined)) {
+      errors.push({
+        path: field,
+        message: `${field} requires either an amount or a rate`,
+        expected: '{ amount: number } | { rate: number }',
+        value: charge
+      });
+    }
+  });
+
+  // Totals can only be checked once every item and charge is valid
+  if (errors.length > 0) return { isValid: false, errors, warnings };
+
+  const totals = computeOrderTotals(order);
+  if (totals.discount > totals.subtotal) {
+    errors.push({
+      path: 'discount',
+      message: 'Discount exceeds the order subtotal',
+      expected: `amount (0 to ${totals.subtotal})`,
+      value: totals.discount
+    });
+  }
+  if (order.total !== undefined && Math.abs(order.total - totals.total) > TOTAL_TOLERANCE) {
+    errors.push({
+      path: 'total',
+      message: 'Order total does not match its items, discount, tax and shipping',
+      expected: totals.total,
+      value: order.total
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Price an order into the summary carried by a review_and_pay button
+ */
+export function buildOrderSummary(order: OrderDetails): OrderSummary {
+  const summary: OrderSummary = {
+    type: order.type || 'digital-goods',
+    status: 'pending',
+    items: order.items,
+    totals: computeOrderTotals(order)
+  };
+
+  if (order.tax?.description !== undefined) summary.taxDescription = order.tax.description;
+  if (order.discount?.description !== undefined) summary.discountDescription = order.discount.description;
+  if (order.shipping?.description !== undefined) summary.shippingDescription = order.shipping.description;
+  if (order.paymentConfiguration !== undefined) summary.paymentConfiguration = order.paymentConfiguration;
+  return summary;
+}
+
+/**
+ * Build the review_and_pay button of an order
+ */
+export function buildOrderButton(order: OrderDetails, title: string = 'Review and pay'): ReviewAndPayButton {
+  const summary = buildOrderSummary(order);
+  return {
+    type: 'review_and_pay',
+    id: 'review_and_pay',
+    title,
+    orderId: order.referenceId,
+    amount: summary.totals.total,
+    currency: order.currency,
+    order: summary
+  };
+}
+
+/**
+ * Send an order details (review and pay) message
+ */
+export async function sendOrderDetailsMessage(params: SendOrderDetailsParams): Promise<SentInteractiveMessage> {
+  const { order, buttonText, ...sendParams } = params;
+
+  const validation = validateOrder(order);
+  if (!validation.isValid) {
+    recordValidationFailure('sendOrderDetailsMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid order details',
+      'sendOrderDetailsMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  return sendInteractiveMessage({ ...sendParams, buttons: [buildOrderButton(order, buttonText)] });
+}
+
+/**
+ * Validate a single product message
+ */
+export function validateProductMessage(product: ProductMessage): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  checkRules(PRODUCT_RULES, product, '', errors, warnings);
+
+  if ((product?.price !== undefined || product?.salePrice !== undefined) && product.currency === undefined) {
+    errors.push({
+      path: 'currency',
+      message: 'A currency is required when the product has a price',
+      expected: 'string (ISO 4217 currency code)',
+      value: product.currency
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Build product message content
+ *
+ * @param product Product to send
+ * @param productImage Uploaded image message of the product
+ */
+export function buildProductMessageContent(product: ProductMessage, productImage?: any): MessageContent {
+  const snapshot: any = { productId: product.productId };
+  if (product.title !== undefined) snapshot.title = product.title;
+  if (product.description !== undefined) snapshot.description = product.description;
+  if (product.currency !== undefined) snapshot.currencyCode = product.currency;
+  if (product.price !== undefined) snapshot.priceAmount1000 = Math.round(product.price * 1000);
+  if (product.salePrice !== undefined) snapshot.salePriceAmount1000 = Math.round(product.salePrice * 1000);
+  if (product.retailerId !== undefined) snapshot.retailerId = product.retailerId;
+  if (product.url !== undefined) snapshot.url = product.url;
+  if (productImage !== undefined) {
+    snapshot.productImage = productImage;
+    snapshot.productImageCount = 1;
+  }
+
+  return {
+    productMessage: {
+      product: snapshot,
+      businessOwnerJid: product.businessOwnerJid,
+      ...(product.body !== undefined && { body: product.body }),
+      ...(product.footer !== undefined && { footer: product.footer })
+    }
+  };
+}
+
+/**
+ * Send a single catalog product
+ */
+export async function sendProductMessage(params: SendProductMessageParams): Promise<SentInteractiveMessage> {
+  const { socket, jid, product, baileys } = params;
+
+  const validation = validateProductMessage(product);
+  if (!validation.isValid) {
+    recordValidationFailure('sendProductMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid product message configuration',
+      'sendProductMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  const prepared = product.image !== undefined
+    ? await prepareHeaderMedia(socket, { mediaType: 'image', media: product.image }, baileys)
+    : undefined;
+
+  return relayMessageContent(
+    socket,
+    jid,
+    buildProductMessageContent(product, prepared?.['imageMessage']),
+    [],
+    params,
+    createMiddlewareContext('sendProductMessage', jid)
+  );
+}
+
+/**
+ * Validate a multi-product message against WhatsApp's section / product limits
+ */
+export function validateMultiProductMessage(message: MultiProductMessage): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  checkRules(MULTI_PRODUCT_RULES, message, '', errors, warnings);
+
+  if (!Array.isArray(message?.sections) || message.sections.length === 0) {
+    errors.push({
+      path: 'sections',
+      message: 'At least one section is required',
+      expected: 'array with minimum 1 item',
+      value: message?.sections
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  if (message.sections.length > COMMERCE_LIMITS.maxProductSections) {
+    errors.push({
+      path: 'sections',
+      message: `A multi-product message supports at most ${COMMERCE_LIMITS.maxProductSections} sections`,
+      expected: `array with maximum ${COMMERCE_LIMITS.maxProductSections} items`,
+      value: message.sections.length
+    });
+  }
+
+  let totalProducts = 0;
+  message.sections.forEach((section, index) => {
+    if (!section?.title || typeof section.title !== 'string' || section.title.length > COMMERCE_LIMITS.sectionTitleLength) {
+      errors.push({
+        path: `sections[${index}].title`,
+        message: `Section title is required (max ${COMMERCE_LIMITS.sectionTitleLength} chars)`,
+        expected: `string (1-${COMMERCE_LIMITS.sectionTitleLength} chars)`,
+        value: section?.title
+      });
+    }
+
+    if (!Array.isArray(section?.productIds) || section.productIds.length === 0) {
+      errors.push({
+        path: `sections[${index}].productIds`,
+        message: 'Each section requires at least one product',
+        expected: 'array with minimum 1 item',
+        value: section?.productIds
+      });
+      return;
+    }
+
+    totalProducts += section.productIds.length;
+    section.productIds.forEach((productId, productIndex) => {
+      if (typeof productId !== 'string' || productId.length === 0) {
+        errors.push({
+          path: `sections[${index}].productIds[${productIndex}]`,
+          message: 'Product ID must be a non-empty string',
+          expected: 'non-empty string',
+          value: productId
+        });
+      }
+    });
+  });
+
+  if (totalProducts > COMMERCE_LIMITS.maxProducts) {
+    errors.push({
+      path: 'sections',
+      message: `A multi-product message supports at most ${COMMERCE_LIMITS.maxProducts} products in total`,
+      expected: `maximum ${COMMERCE_LIMITS.maxProducts} products`,
+      value: totalProducts
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Build the mpm button listing the sections of a multi-product message
+ */
+export function buildMultiProductButton(message: MultiProductMessage): MPMButton {
+  return {
+    type: 'mpm',
+    id: 'mpm',
+    title: message.buttonText || 'View items',
+    merchantId: message.businessOwnerJid,
+    ...(message.catalogId !== undefined && { catalogId: message.catalogId }),
+    sections: message.sections
+  };
+}
+
+/**
+ * Send a multi-product message (catalog items grouped in sections)
+ */
+export async function sendMultiProductMessage(params: SendMultiProductMessageParams): Promise<SentInteractiveMessage> {
+  const { message, ...sendParams } = params;
+
+  const validation = validateMultiProductMessage(message);
+  if (!validation.isValid) {
+    recordValidationFailure('sendMultiProductMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid multi-product message configuration',
+      'sendMultiProductMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  return sendInteractiveMessage({
+    ...sendParams,
+    config: {
+      body: message.body,
+      headerText: message.headerText,
+      ...(message.footer !== undefined && { footer: message.footer })
+    },
+    buttons: [buildMultiProductButton(message)]
+  });
+}
+
+/**
+ * Parse an order or payment status message.
+ * Accepts a full WAMessage ({ key, message }) or bare message content.
+ *
+ * Recognizes:
+ *  1. orderMessage: an order placed from the catalog / a multi-product message
+ *  2. native flow replies of payment flows (review_and_pay, payment_info, ...)
+ *  3. order_status updates sent for an order
+ *
+ * @returns Commerce event, or null when the message is none of the above
+ */
+export function parseCommerceResponse(message: any): CommerceResponse | null {
+  const content = unwrapMessageContent(message);
+  if (!content || typeof content !== 'object') return null;
+
+  // 1. Catalog order
+  const orderMessage = content.orderMessage;
+  if (orderMessage?.orderId) {
+    const response: CommerceResponse = {
+      kind: 'order',
+      orderId: orderMessage.orderId,
+      status: ORDER_MESSAGE_STATUSES[orderMessage.status] || 'inquiry',
+      itemCount: Number(orderMessage.itemCount ?? 0)
+    };
+    if (orderMessage.sellerJid) response.sellerJid = orderMessage.sellerJid;
+    if (orderMessage.token) response.token = orderMessage.token;
+    if (orderMessage.orderTitle) response.title = orderMessage.orderTitle;
+    if (orderMessage.message) response.text = orderMessage.message;
+    if (orderMessage.totalAmount1000 != null && orderMessage.totalCurrencyCode) {
+      response.total = {
+        amount: Number(orderMessage.totalAmount1000) / 1000,
+        currency: orderMessage.totalCurrencyCode
+      };
+    }
+    return response;
+  }
+
+  // 2. Payment flow reply
+  const nativeFlow = content.interactiveResponseMessage?.nativeFlowResponseMessage;
+  if (nativeFlow && PAYMENT_FLOW_NAMES.includes(nativeFlow.name)) {
+    const params = safeJsonParse(nativeFlow.paramsJson);
+    const response: CommerceResponse = {
+      kind: 'payment',
+      referenceId: String(params['reference_id'] ?? params['payment_id'] ?? ''),
+      status: String(params['payment_status'] ?? params['status'] ?? params['payment']?.status ?? 'pending'),
+      params
+    };
+    const transactionId = params['transaction_id'] ?? params['payment']?.transaction_id;
+    if (transactionId !== undefined) response.transactionId = String(transactionId);
+    if (params['total_amount'] !== undefined) response.amount = fromAmount(params['total_amount']);
+    if (params['currency'] !== undefined) response.currency = params['currency'];
+    return response;
+  }
+
+  // 3. Order status update
+  const statusButton = content.interactiveMessage?.nativeFlowMessage?.buttons?.[0];
+  if (statusButton?.name === 'order_status') {
+    const params = safeJsonParse(statusButton.buttonParamsJson);
+    const response: CommerceResponse = {
+      kind: 'order_status',
+      referenceId: String(params['reference_id'] ?? ''),
+      status: String(params['order']?.status ?? 'pending')
+    };
+    if (params['order']?.description !== undefined) response.description = params['order'].description;
+    if (params['payment']?.status !== undefined) response.paymentStatus = params['payment'].status;
+    if (params['payment']?.transaction_id !== undefined) response.transactionId = params['payment'].transaction_id;
+    return response;
+  }
+
+  return null;
+}
@@ -0,0 +1,168 @@
+/**
+ * Editing and revoking previously sent interactive messages.
+ *
+ * Edits rebuild the content with the same builder as sendInteractiveMessage
+ * and relay it inside a MESSAGE_EDIT protocol message; revokes relay a
+ * REVOKE protocol message ("delete for everyone").
+ */
+
+import {
+  Button,
+  EditInteractiveMessageOptions,
+  InteractiveMessageConfig,
+  MessageContent,
+  MessageKey,
+  SentInteractiveMessage,
+  ValidationError,
+  WAMessage,
+  WASocket
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import {
+  buildAdditionalNodes,
+  prepareInteractiveContent,
+  relayMessageContent,
+  validateInteractiveMessage
+} from './buttons.js';
+import { recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext, reportMiddlewareError } from './middleware.js';
+
+/**
+ * ProtocolMessage.Type values used here
+ */
+const PROTOCOL_MESSAGE_REVOKE = 0;
+const PROTOCOL_MESSAGE_EDIT = 14;
+
+/**
+ * Stanza "edit" attribute values: message edit, sender revoke and admin revoke
+ */
+const EDIT_ATTRIBUTE = {
+  edit: '1',
+  senderRevoke: '7',
+  adminRevoke: '8'
+} as const;
+
+/**
+ * Check that a key identifies a message and return its chat JID
+ */
+function requireKey(key: MessageKey, context: string, ownMessage: boolean): string {
+  const errors: ValidationError[] = [];
+
+  if (!key?.remoteJid) {
+    errors.push({ path: 'key.remoteJid', message: 'Chat JID of the message is required', expected: 'string', value: key?.remoteJid });
+  }
+  if (!key?.id) {
+    errors.push({ path: 'key.id', message: 'ID of the message is required', expected: 'string', value: key?.id });
+  }
+  if (ownMessage && key?.fromMe === false) {
+    errors.push({ path: 'key.fromMe', message: 'Only messages sent by this account can be edited', expected: true, value: false });
+  }
+
+  if (errors.length > 0) {
+    throw new InteractiveValidationError('Invalid message key', context, errors);
+  }
+
+  return key.remoteJid!;
+}
+
+/**
+ * Replace the content of a sent interactive message
+ * (e.g. disable buttons after a choice or mark an order as paid)
+ *
+ * @param socket WhatsApp socket connection
+ * @param key Key of the message to edit (SentInteractiveMessage.key)
+ * @param config New message configuration
+ * @param buttons New buttons
+ * @returns The edited message: original key and ID with the new content
+ */
+export async function editInteractiveMessage(
+  socket: WASocket,
+  key: MessageKey,
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  options: EditInteractiveMessageOptions = {}
+): Promise<SentInteractiveMessage> {
+  const jid = requireKey(key, 'editInteractiveMessage', true);
+
+  // Validate input
+  const validation = validateInteractiveMessage(config, buttons);
+  if (!validation.isValid) {
+    recordValidationFailure('editInteractiveMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid interactive message configuration',
+      'editInteractiveMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  const middleware = createMiddlewareContext('editInteractiveMessage', jid);
+  let content: MessageContent;
+  try {
+    content = await prepareInteractiveContent({ socket, jid, config, buttons, ...options }, 'editInteractiveMessage', middleware);
+  } catch (error) {
+    await reportMiddlewareError(middleware, error);
+    throw error;
+  }
+
+  // The edit carries the rebuilt interactiveMessage proto as the new message
+  const { interactiveMessage } = content;
+  const sent = await relayMessageContent(
+    socket,
+    jid,
+    {
+      protocolMessage: {
+        key,
+        type: PROTOCOL_MESSAGE_EDIT,
+        editedMessage: { interactiveMessage }
+      }
+    },
+    buildAdditionalNodes(jid, middleware.buttons ?? buttons, middleware.config ?? config),
+    { ...options, additionalAttributes: { edit: EDIT_ATTRIBUTE.edit } },
+    middleware
+  );
+
+  return {
+    ...sent,
+    key,
+    messageId: key.id!,
+    content
+  };
+}
+
+/**
+ * Delete a sent interactive message for everyone.
+ * Messages of other participants (group admins only) are revoked as admin.
+ *
+ * @param socket WhatsApp socket connection
+ * @param key Key of the message to revoke
+ * @returns The relayed revoke protocol message
+ */
+export async function revokeInteractiveMessage(
+  socket: WASocket,
+  key: MessageKey,
+  options: EditInteractiveMessageOptions = {}
+): Promise<WAMessage> {
+  const jid = requireKey(key, 'revokeInteractiveMessage', false);
+
+  const sent = await relayMessageContent(
+    socket,
+    jid,
+    {
+      protocolMessage: {
+        key,
+        type: PROTOCOL_MESSAGE_REVOKE
+      }
+    },
+    [],
+    {
+      ...options,
+      additionalAttributes: {
+        edit: key.fromMe === false ? EDIT_ATTRIBUTE.adminRevoke : EDIT_ATTRIBUTE.senderRevoke
+      }
+    },
+    createMiddlewareContext('revokeInteractiveMessage', jid)
+  );
+
+  return sent.message;
+}
@@ -0,0 +1,356 @@
+/**
+ * Fallback for recipients that cannot render interactive buttons.
+ *
+ * The message degrades to a native poll (one option per reply button or
+ * list row) or to a numbered plain-text menu. The options sent are
+ * remembered (for FALLBACK_MENU_TTL_MS) so parseButtonResponse can map a
+ * poll vote or a "2" reply back to the original button id. A text menu is
+ * forgotten once answered; in groups only replies quoting it count.
+ *
+ * Polls are used when every button can become a poll option (2-12 unique
+ * titles, no call-to-action buttons); otherwise the text menu is sent.
+ */
+
+import { createHash } from 'crypto';
+import {
+  Button,
+  ButtonType,
+  FallbackMenuOption,
+  FallbackOptions,
+  FallbackStrategy,
+  InteractiveMessageConfig,
+  MessageContent,
+  MiddlewareContext,
+  SendInteractiveMessageParams,
+  SentInteractiveMessage
+} from '../types/index.js';
+import { RelayError } from '../types/errors.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import {
+  getButtonType,
+  isButtonOfType,
+  isJidGroup,
+  toSentInteractiveMessage,
+  validateInteractiveMessage
+} from './buttons.js';
+import { getLogger } from './logger.js';
+import { recordFallback, recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext, reportMiddlewareError, runMiddleware } from './middleware.js';
+import { getButtonDetail } from './render.js';
+
+/**
+ * Limits WhatsApp enforces on polls
+ */
+export const POLL_LIMITS = {
+  nameLength: 255,
+  optionLength: 100,
+  minOptions: 2,
+  maxOptions: 12
+};
+
+/**
+ * Maximum number of sent menus remembered for mapping replies
+ */
+export const FALLBACK_MENU_LIMIT = 500;
+
+/**
+ * Time (ms) a sent menu is remembered for mapping replies
+ */
+export const FALLBACK_MENU_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default instruction closing a text menu
+ */
+export const DEFAULT_FALLBACK_PROMPT = 'Reply with the number of your choice.';
+
+/**
+ * Call-to-action buttons: listed with their URL / number / text instead of becoming options
+ */
+const CTA_TYPES: ButtonType[] = ['cta_url', 'open_webview', 'cta_call', 'cta_copy', 'cta_catalog'];
+
+/**
+ * Options of a sent menu and the message carrying them
+ */
+interface RememberedMenu {
+  messageId: string | undefined;
+  options: FallbackMenuOption[];
+  expiresAt: number;
+}
+
+/**
+ * Sent polls keyed by poll message ID
+ */
+const pollMenus = new Map<string, RememberedMenu>();
+
+/**
+ * Last text menu sent to each chat
+ */
+const textMenus = new Map<string, RememberedMenu>();
+
+/**
+ * Forget every remembered menu
+ */
+export function clearFallbackMenus(): void {
+  pollMenus.clear();
+  textMenus.clear();
+}
+
+/**
+ * Remember a menu, evicting the oldest once the limit is reached
+ */
+function remember(
+  menus: Map<string, RememberedMenu>,
+  key: string,
+  messageId: string | undefined,
+  options: FallbackMenuOption[]
+): void {
+  menus.delete(key);
+  if (menus.size >= FALLBACK_MENU_LIMIT) {
+    const oldestKey = menus.keys().next().value;
+    if (oldestKey !== undefined) menus.delete(oldestKey);
+  }
+  menus.set(key, { messageId, options, expiresAt: Date.now() + FALLBACK_MENU_TTL_MS });
+}
+
+/**
+ * Look up a remembered menu, dropping it once expired
+ */
+function recall(menus: Map<string, RememberedMenu>, key: string): RememberedMenu | undefined {
+  const menu = menus.get(key);
+  if (menu && menu.expiresAt <= Date.now()) {
+    menus.delete(key);
+    return undefined;
+  }
+  return menu;
+}
+
+/**
+ * Decide whether a message goes out as a fallback instead of being relayed
+ * (send errors are handled separately by sendInteractiveMessage)
+ */
+export function shouldUseFallback(options: FallbackOptions, jid: string): boolean {
+  const on = options.on ?? ['error'];
+  const isGroup = isJidGroup(jid);
+
+  if (on.includes('always')) return true;
+  if (on.includes('group') && isGroup) return true;
+  if (options.clientType !== undefined && options.clientTypes?.includes(options.clientType)) return true;
+
+  return options.when?.({
+    jid,
+    isGroup,
+    ...(options.clientType !== undefined && { clientType: options.clientType })
+  }) ?? false;
+}
+
+/**
+ * Check whether a send error should trigger the fallback
+ */
+export function shouldFallBackOnError(options: FallbackOptions | undefined, error: unknown): boolean {
+  return !!options && (options.on ?? ['error']).includes('error') && !(error instanceof InteractiveValidationError);
+}
+
+/**
+ * Selectable menu options: one per reply button, one per list row
+ */
+export function getFallbackOptions(buttons: Button[]): FallbackMenuOption[] {
+  const options: FallbackMenuOption[] = [];
+
+  buttons.forEach(button => {
+    if (CTA_TYPES.includes(getButtonType(button))) return;
+
+    if (isButtonOfType(button, 'single_select')) {
+      button.options.forEach(row => options.push({
+        number: options.length + 1,
+        title: row.description ? `${row.title} - ${row.description}` : row.title,
+        selectedId: row.id,
+        button
+      }));
+    } else {
+      options.push({ number: options.length + 1, title: button.title, selectedId: button.id, button });
+    }
+  });
+
+  return options;
+}
+
+/**
+ * Build the poll standing in for a message, or undefined when the buttons do not fit a poll
+ */
+export function buildFallbackPoll(
+  config: InteractiveMessageConfig,
+  buttons: Button[]
+): { content: MessageContent; options: FallbackMenuOption[] } | undefined {
+  const options = getFallbackOptions(buttons);
+  const titles = options.map(option => option.title);
+  const name = config.headerText ? `${config.headerText}\n${config.body}` : config.body;
+
+  const fitsPoll = options.length >= POLL_LIMITS.minOptions &&
+    options.length <= POLL_LIMITS.maxOptions &&
+    buttons.every(button => !CTA_TYPES.includes(getButtonType(button))) &&
+    new Set(titles).size === titles.length &&
+    titles.every(title => title.length <= POLL_LIMITS.optionLength) &&
+    name.length <= POLL_LIMITS.nameLength;
+  if (!fitsPoll) return undefined;
+
+  return {
+    content: { poll: { name, values: titles, selectableCount: 1 } },
+    options
+  };
+}
+
+/**
+ * Build the numbered text menu standing in for a message
+ */
+export function buildFallbackText(
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  prompt: string = DEFAULT_FALLBACK_PROMPT
+): { content: MessageContent; options: FallbackMenuOption[] } {
+  const options = getFallbackOptions(buttons);
+  const lines: string[] = [];
+
+  if (config.headerText) lines.push(`*${config.headerText}*`);
+  lines.push(config.body, '');
+  options.forEach(option => lines.push(`${option.number}. ${option.title}`));
+
+  buttons
+    .filter(button => CTA_TYPES.includes(getButtonType(button)))
+    .forEach(button => lines.push(`${button.title}: ${getButtonDetail(button)}`));
+
+  if (config.footer) lines.push('', `_${config.footer}_`);
+  if (options.length > 0) lines.push('', prompt);
+
+  return {
+    content: { text: lines.join('\n') },
+    options
+  };
+}
+
+/**
+ * Send a message as a poll or numbered text menu instead of interactive buttons
+ *
+ * @param params Parameters of the interactive message
+ * @param strategy Preferred fallback; polls fall back to text when the buttons do not fit a poll
+ * @param middleware Context of the send, passed to the beforeRelay, afterSend and onError hooks
+ */
+export async function sendFallbackMessage(
+  params: SendInteractiveMessageParams,
+  strategy: FallbackStrategy = params.fallback?.strategy ?? 'poll',
+  middleware: MiddlewareContext = createMiddlewareContext('sendFallbackMessage', params.jid)
+): Promise<SentInteractiveMessage> {
+  try {
+    return await sendFallbackContent(params, strategy, middleware);
+  } catch (error) {
+    await reportMiddlewareError(middleware, error);
+    throw error;
+  }
+}
+
+/**
+ * Build and send the poll or text menu of sendFallbackMessage
+ */
+async function sendFallbackContent(
+  params: SendInteractiveMessageParams,
+  strategy: FallbackStrategy,
+  middleware: MiddlewareContext
+): Promise<SentInteractiveMessage> {
+  const { socket, jid, config, buttons } = params;
+
+  const validation = validateInteractiveMessage(config, buttons);
+  if (!validation.isValid) {
+    recordValidationFailure('sendFallbackMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid interactive message configuration',
+      'sendFallbackMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  const poll = strategy === 'poll' ? buildFallbackPoll(config, buttons) : undefined;
+  const menu = poll ?? buildFallbackText(config, buttons, params.fallback?.prompt);
+
+  middleware.content = menu.content;
+  await runMiddleware('beforeRelay', middleware);
+
+  const content = middleware.content ?? menu.content;
+  const message = await socket.sendMessage(jid, content);
+  if (!message) {
+    throw new RelayError(`sendMessage returned no message for the ${poll ? 'poll' : 'text'} fallback`, 'sendFallbackMessage', jid);
+  }
+
+  if (poll) {
+    if (message.key.id) remember(pollMenus, message.key.id, message.key.id, menu.options);
+  } else if (menu.options.length > 0) {
+    remember(textMenus, jid, message.key.id ?? undefined, menu.options);
+  }
+
+  recordFallback(poll ? 'poll' : 'text');
+  getLogger().info({ jid, messageId: message.key.id, fallback: poll ? 'poll' : 'text' }, 'fallback sent');
+
+  const sent: SentInteractiveMessage = {
+    ...toSentInteractiveMessage(jid, message, content),
+    fallback: poll ? 'poll' : 'text'
+  };
+  middleware.result = sent;
+  await runMiddleware('afterSend', middleware);
+  return middleware.result ?? sent;
+}
+
+/**
+ * SHA-256 of a poll option name, as carried by decrypted poll votes
+ */
+function hashOption(title: string): string {
+  return createHash('sha256').update(title).digest('hex');
+}
+
+/**
+ * Match a vote on a fallback poll or a numbered reply to a fallback text menu
+ *
+ * Poll votes are read from the messages.update entries Baileys emits once a
+ * vote is decrypted ({ key, update: { pollUpdates } }). A matched text reply
+ * clears the menu; in groups the reply must quote it.
+ *
+ * @param message Incoming message or poll update entry
+ * @param content Unwrapped message content
+ */
+export function matchFallbackReply(
+  message: any,
+  content: any
+): { source: 'poll' | 'text'; option: FallbackMenuOption } | null {
+  // Poll vote: the latest update of the voter wins
+  const pollUpdates = message?.update?.pollUpdates;
+  if (Array.isArray(pollUpdates) && message.key?.id) {
+    const menu = recall(pollMenus, message.key.id);
+    const selected = pollUpdates[pollUpdates.length - 1]?.vote?.selectedOptions?.[0];
+    if (!menu || selected === undefined) return null;
+
+    const hash = typeof selected === 'string' ? selected : Buffer.from(selected).toString('hex');
+    const option = menu.options.find(candidate => candidate.title === hash || hashOption(candidate.title) === hash);
+    return option ? { source: 'poll', option } : null;
+  }
+
+  // Text reply: the option number or its exact title
+  const jid = message?.key?.remoteJid;
+  const text = content?.conversation ?? content?.extendedTextMessage?.text;
+  if (!jid || message.key.fromMe || typeof text !== 'string') return null;
+
+  const menu = recall(textMenus, jid);
+  if (!menu) return null;
+
+  // Several members may be talking in a group: only a reply to the menu itself counts
+  if (isJidGroup(jid)) {
+    const quotedId = content?.extendedTextMessage?.contextInfo?.stanzaId;
+    if (!quotedId || quotedId !== menu.messageId) return null;
+  }
+
+  const reply = text.trim().replace(/[.)]$/, '');
+  const option = /^\d+$/.test(reply)
+    ? menu.options.find(candidate => candidate.number === Number(reply))
+    : menu.options.find(candidate => candidate.title.toLowerCase() === reply.toLowerCase());
+  if (!option) return null;
+
+  textMenus.delete(jid);
+  return { source: 'text', option };
+}
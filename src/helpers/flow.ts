@@ -0,0 +1,435 @@
+/**
+ * Conversation flow router for multi-step interactive menus.
+ *
+ * Screens are declared as InteractiveMessageConfig + Button[]; incoming
+ * replies are mapped to the next screen per chat (per participant in
+ * groups), with back / home navigation, inactivity timeouts and pluggable
+ * state storage.
+ */
+
+import {
+  ButtonResponse,
+  FlowRouterOptions,
+  FlowScreen,
+  FlowState,
+  FlowStateStore,
+  FlowTransition,
+  ValidationError,
+  WASocket
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { isJidGroup, sendInteractiveMessage } from './buttons.js';
+import { getLogger } from './logger.js';
+import { parseButtonResponse } from './responses.js';
+
+/**
+ * Time (ms) after its last update that MemoryFlowStateStore drops a conversation
+ */
+export const FLOW_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum number of conversations MemoryFlowStateStore keeps
+ */
+export const FLOW_STATE_LIMIT = 10000;
+
+/**
+ * Longest timeoutMs a timer can wait (setTimeout fires at once above 2^31 - 1 ms)
+ */
+export const MAX_FLOW_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Key of the state of a conversation: the chat JID, or chat and participant in groups
+ */
+export function getFlowStateKey(jid: string, participant?: string): string {
+  return participant ? `${jid}:${participant}` : jid;
+}
+
+/**
+ * Default in-memory state storage (state is lost on restart).
+ * Conversations expire ttlMs after their last update; once the limit is
+ * reached the least recently updated one is evicted.
+ */
+export class MemoryFlowStateStore implements FlowStateStore {
+  private states = new Map<string, FlowState>();
+  private ttlMs: number;
+  private limit: number;
+
+  constructor(options: { ttlMs?: number; limit?: number } = {}) {
+    this.ttlMs = options.ttlMs ?? FLOW_STATE_TTL_MS;
+    this.limit = options.limit ?? FLOW_STATE_LIMIT;
+  }
+
+  async get(key: string): Promise<FlowState | undefined> {
+    const state = this.states.get(key);
+    if (state && this.isExpired(state)) {
+      this.states.delete(key);
+      return undefined;
+    }
+    return state;
+  }
+
+  async set(key: string, state: FlowState): Promise<void> {
+    this.states.delete(key);
+    this.sweep();
+    if (this.states.size >= this.limit) {
+      const oldestKey = this.states.keys().next().value;
+      if (oldestKey !== undefined) this.states.delete(oldestKey);
+    }
+    this.states.set(key, state);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+
+  private isExpired(state: FlowState): boolean {
+    return Date.now() - state.updatedAt > this.ttlMs;
+  }
+
+  /**
+   * Drop expired conversations (kept in update order, so the oldest come first)
+   */
+  private sweep(): void {
+    for (const [key, state] of this.states) {
+      if (!this.isExpired(state)) break;
+      this.states.delete(key);
+    }
+  }
+}
+
+/**
+ * Routes button replies through declared screens and sends the next one
+ */
+export class FlowRouter {
+  readonly store: FlowStateStore;
+  private socket: WASocket;
+  private screens = new Map<string, FlowScreen>();
+  private initialScreen: string;
+  private timeoutMs: number | undefined;
+  private backId: string;
+  private homeId: string;
+  private onTimeout: FlowRouterOptions['onTimeout'];
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(options: FlowRouterOptions) {
+    FlowRouter.validateTimeout(options.timeoutMs);
+    this.socket = options.socket;
+    // The default store outlives the timeout so a silent conversation still times out
+    this.store = options.store || new MemoryFlowStateStore({
+      ttlMs: Math.max(FLOW_STATE_TTL_MS, 2 * (options.timeoutMs ?? 0))
+    });
+    this.initialScreen = options.initialScreen;
+    this.timeoutMs = options.timeoutMs;
+    this.backId = options.backId || 'back';
+    this.homeId = options.homeId || 'home';
+    this.onTimeout = options.onTimeout;
+
+    options.screens.forEach(screen => this.screens.set(screen.id, screen));
+    FlowRouter.validateScreens(options.screens, options.initialScreen);
+  }
+
+  /**
+   * Ensure an inactivity timeout is a positive number of ms a timer can wait
+   */
+  static validateTimeout(timeoutMs: number | undefined): void {
+    if (timeoutMs === undefined) return;
+    if (typeof timeoutMs === 'number' && timeoutMs > 0 && timeoutMs <= MAX_FLOW_TIMEOUT_MS) return;
+
+    throw new InteractiveValidationError(
+      'Invalid flow timeout',
+      'FlowRouter',
+      [{
+        path: 'timeoutMs',
+        message: `Timeout must be between 1 and ${MAX_FLOW_TIMEOUT_MS} ms`,
+        expected: `number between 1 and ${MAX_FLOW_TIMEOUT_MS}`,
+        value: timeoutMs
+      }]
+    );
+  }
+
+  /**
+   * Ensure screen ids are unique and every link points to a declared screen
+   */
+  static validateScreens(screens: FlowScreen[], initialScreen: string): void {
+    const errors: ValidationError[] = [];
+    const ids = new Set<string>();
+
+    screens.forEach((screen, index) => {
+      if (ids.has(screen.id)) {
+        errors.push({
+          path: `screens[${index}].id`,
+          message: 'Screen ID must be unique',
+          expected: 'unique string',
+          value: screen.id
+        });
+      }
+      ids.add(screen.id);
+    });
+
+    if (!ids.has(initialScreen)) {
+      errors.push({
+        path: 'initialScreen',
+        message: 'Initial screen is not declared',
+        expected: Array.from(ids),
+        value: initialScreen
+      });
+    }
+
+    screens.forEach((screen, index) => {
+      Object.entries(screen.next || {}).forEach(([replyId, target]) => {
+        if (!ids.has(target)) {
+          errors.push({
+            path: `screens[${index}].next.${replyId}`,
+            message: 'Linked screen is not declared',
+            expected: Array.from(ids),
+            value: target
+          });
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      throw new InteractiveValidationError(
+        'Invalid flow definition',
+        'FlowRouter',
+        errors
+      );
+    }
+  }
+
+  /**
+   * Swap in a new set of screens (e.g. after a menu file was reloaded).
+   * Conversations keep their state; replies on screens that no longer exist are ignored.
+   */
+  replaceScreens(screens: FlowScreen[], initialScreen: string = this.initialScreen): void {
+    FlowRouter.validateScreens(screens, initialScreen);
+    this.screens = new Map(screens.map(screen => [screen.id, screen]));
+    this.initialScreen = initialScreen;
+  }
+
+  /**
+   * Start (or restart) the flow for a JID on the initial screen
+   *
+   * @param participant Group member the flow belongs to (omit to share the flow with the whole chat)
+   */
+  async start(jid: string, participant?: string): Promise<FlowTransition> {
+    await this.end(jid, participant);
+    return this.goTo(jid, this.initialScreen, undefined, participant);
+  }
+
+  /**
+   * Send a screen and record it as the current one for the JID
+   */
+  async goTo(jid: string, screenId: string, response?: ButtonResponse, participant?: string): Promise<FlowTransition> {
+    const screen = this.getScreen(screenId);
+    const state = await this.store.get(getFlowStateKey(jid, participant));
+    const history = state ? [...state.history, state.screenId] : [];
+
+    await this.show(jid, participant, screen, history);
+
+    return this.transition(jid, participant, screenId, state?.screenId, response);
+  }
+
+  /**
+   * Return to the previous screen (or the initial one when there is none)
+   */
+  async back(jid: string, response?: ButtonResponse, participant?: string): Promise<FlowTransition> {
+    const state = await this.store.get(getFlowStateKey(jid, participant));
+    const history = state ? [...state.history] : [];
+    const previous = history.pop() || this.initialScreen;
+
+    await this.show(jid, participant, this.getScreen(previous), history);
+
+    return this.transition(jid, participant, previous, state?.screenId, response);
+  }
+
+  /**
+   * Return to the initial screen, clearing history
+   */
+  async home(jid: string, response?: ButtonResponse, participant?: string): Promise<FlowTransition> {
+    const state = await this.store.get(getFlowStateKey(jid, participant));
+
+    await this.show(jid, participant, this.getScreen(this.initialScreen), []);
+
+    return this.transition(jid, participant, this.initialScreen, state?.screenId, response);
+  }
+
+  /**
+   * End the flow for a JID
+   */
+  async end(jid: string, participant?: string): Promise<void> {
+    const key = getFlowStateKey(jid, participant);
+    this.clearTimer(key);
+    await this.store.delete(key);
+  }
+
+  /**
+   * Cancel every pending inactivity timeout (e.g. before shutting down)
+   */
+  close(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Route an incoming message.
+   * Only replies quoting the screen the router sent last are routed, so taps on
+   * older screens are ignored. In groups the sender's own flow is used, or else
+   * a flow shared with the whole group.
+   *
+   * @param message Incoming WAMessage
+   * @returns The transition performed, or null when the message was not
+   *          a reply to the current screen of an active flow
+   */
+  async handle(message: any): Promise<FlowTransition | null> {
+    const jid: string | undefined = message?.key?.remoteJid;
+    if (!jid) return null;
+
+    const response = parseButtonResponse(message);
+    if (!response) return null;
+
+    const sender: string | undefined = isJidGroup(jid) ? message.key.participant || undefined : undefined;
+    let participant = sender;
+    let state = sender ? await this.getRepliedState(jid, sender, response) : undefined;
+    if (!state) {
+      participant = undefined;
+      state = await this.getRepliedState(jid, undefined, response);
+    }
+    if (!state) return null;
+
+    // Also checked here for stores shared with processes whose timer never fired
+    if (this.timeoutMs !== undefined && Date.now() - state.updatedAt > this.timeoutMs) {
+      await this.expire(jid, participant, state);
+      return null;
+    }
+
+    if (response.selectedId === this.backId) return this.back(jid, response, participant);
+    if (response.selectedId === this.homeId) return this.home(jid, response, participant);
+
+    const screen = this.screens.get(state.screenId);
+    if (!screen) return null;
+
+    const target = screen.resolve
+      ? await screen.resolve(response, state)
+      : screen.next?.[response.selectedId];
+    if (!target) return null;
+
+    return this.goTo(jid, target, response, participant);
+  }
+
+  /**
+   * Get the state of a conversation when the reply quotes its current screen
+   */
+  private async getRepliedState(
+    jid: string,
+    participant: string | undefined,
+    response: ButtonResponse
+  ): Promise<FlowState | undefined> {
+    const state = await this.store.get(getFlowStateKey(jid, participant));
+    if (state?.messageId !== undefined && response.quotedKey?.id !== state.messageId) return undefined;
+    return state;
+  }
+
+  /**
+   * Look up a screen, failing loudly for unknown ids
+   */
+  private getScreen(screenId: string): FlowScreen {
+    const screen = this.screens.get(screenId);
+    if (!screen) {
+      throw new InteractiveValidationError(
+        `Unknown flow screen: ${screenId}`,
+        'FlowRouter',
+        [{
+          path: 'screenId',
+          message: 'Screen is not declared',
+          expected: Array.from(this.screens.keys()),
+          value: screenId
+        }]
+      );
+    }
+    return screen;
+  }
+
+  /**
+   * Send a screen, persist the new state and restart the inactivity timeout
+   */
+  private async show(jid: string, participant: string | undefined, screen: FlowScreen, history: string[]): Promise<void> {
+    const sent = await sendInteractiveMessage({
+      socket: this.socket,
+      jid,
+      config: screen.config,
+      buttons: screen.buttons
+    });
+
+    const key = getFlowStateKey(jid, participant);
+    const state: FlowState = {
+      screenId: screen.id,
+      history,
+      updatedAt: Date.now(),
+      messageId: sent.messageId
+    };
+    if (participant !== undefined) state.participant = participant;
+    await this.store.set(key, state);
+
+    this.scheduleTimeout(jid, participant);
+  }
+
+  /**
+   * Time out a conversation that gets no reply within timeoutMs
+   */
+  private scheduleTimeout(jid: string, participant: string | undefined): void {
+    if (this.timeoutMs === undefined) return;
+
+    const key = getFlowStateKey(jid, participant);
+    const timeoutMs = this.timeoutMs;
+    this.clearTimer(key);
+
+    const timer = setTimeout(async () => {
+      this.timers.delete(key);
+      try {
+        // The state may have moved on in another process sharing the store
+        const state = await this.store.get(key);
+        if (state && Date.now() - state.updatedAt >= timeoutMs) await this.expire(jid, participant, state);
+      } catch (error) {
+        getLogger().error({ jid, participant, err: error }, 'flow timeout failed');
+      }
+    }, timeoutMs);
+    // Pending timeouts do not keep the process alive
+    timer.unref?.();
+    this.timers.set(key, timer);
+  }
+
+  /**
+   * Cancel the inactivity timeout of a conversation
+   */
+  private clearTimer(key: string): void {
+    const timer = this.timers.get(key);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(key);
+  }
+
+  /**
+   * End a timed out conversation and report it to onTimeout
+   */
+  private async expire(jid: string, participant: string | undefined, state: FlowState): Promise<void> {
+    await this.end(jid, participant);
+    if (this.onTimeout) await this.onTimeout(jid, state);
+  }
+
+  /**
+   * Describe a completed transition
+   */
+  private transition(
+    jid: string,
+    participant: string | undefined,
+    to: string,
+    from: string | undefined,
+    response: ButtonResponse | undefined
+  ): FlowTransition {
+    const transition: FlowTransition = { jid, to };
+    if (participant !== undefined) transition.participant = participant;
+    if (from !== undefined) transition.from = from;
+    if (response !== undefined) transition.response = response;
+    return transition;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * WhatsApp Flows: native multi-screen forms opened from a flow button.
+ *
+ * sendFlowMessage sends the flow button (flow id, token, CTA, initial
+ * screen and data); when the user submits the form WhatsApp replies with an
+ * nfm_reply whose response JSON parseFlowResponse extracts.
+ */
+
+import {
+  FlowButton,
+  FlowMessageOptions,
+  FlowResponse,
+  InteractiveMessageConfig,
+  SendFlowMessageParams,
+  SentInteractiveMessage,
+  ValidationResult
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { sendInteractiveMessage, validateInteractiveMessage } from './buttons.js';
+import { recordValidationFailure } from './metrics.js';
+import { getQuotedKey, unwrapMessageContent } from './responses.js';
+
+/**
+ * Build the flow button of a flow message
+ */
+export function buildFlowButton(flow: FlowMessageOptions): FlowButton {
+  const button: FlowButton = {
+    type: 'flow',
+    id: 'flow',
+    title: flow.cta,
+    flowId: flow.flowId,
+    flowToken: flow.flowToken
+  };
+
+  if (flow.action !== undefined) button.flowAction = flow.action;
+  if (flow.screen !== undefined) button.screen = flow.screen;
+  if (flow.data !== undefined) button.data = flow.data;
+  if (flow.mode !== undefined) button.mode = flow.mode;
+  return button;
+}
+
+/**
+ * Validate a flow message: the usual message rules plus the initial
+ * screen a navigate flow has to open on
+ */
+export function validateFlowMessage(config: InteractiveMessageConfig, flow: FlowMessageOptions): ValidationResult {
+  const validation = validateInteractiveMessage(config, [buildFlowButton(flow)]);
+  const errors = validation.errors.map(error => ({
+    ...error,
+    path: error.path.replace(/^buttons\[0\]\.title$/, 'flow.cta').replace(/^buttons\[0\]\./, 'flow.')
+  }));
+
+  if ((flow.action ?? 'navigate') === 'navigate' && !flow.screen) {
+    errors.push({
+      path: 'flow.screen',
+      message: 'A navigate flow requires the screen to open first',
+      expected: 'non-empty string',
+      value: flow.screen
+    });
+  }
+
+  return {
+    ...validation,
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Send a flow message opening a WhatsApp Flow
+ */
+export async function sendFlowMessage(params: SendFlowMessageParams): Promise<SentInteractiveMessage> {
+  const { flow, ...sendParams } = params;
+
+  const validation = validateFlowMessage(params.config, flow);
+  if (!validation.isValid) {
+    recordValidationFailure('sendFlowMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid flow message configuration',
+      'sendFlowMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  return sendInteractiveMessage({ ...sendParams, buttons: [buildFlowButton(flow)] });
+}
+
+/**
+ * Parse a flow form submission (nfm_reply).
+ * Accepts a full WAMessage ({ key, message }), bare message content, or a
+ * Cloud API style `{ nfm_reply: { name, body, response_json } }` object.
+ *
+ * @param message Incoming message
+ * @returns Submission with the form fields in `data`, or null when the message is not a flow reply
+ */
+export function parseFlowResponse<T extends { [key: string]: any } = { [key: string]: any }>(
+  message: any
+): FlowResponse<T> | null {
+  const content = unwrapMessageContent(message);
+  if (!content || typeof content !== 'object') return null;
+
+  const interactive = content.interactiveResponseMessage;
+  const nativeFlow = interactive?.nativeFlowResponseMessage;
+  const nfmReply = content.nfm_reply ?? content.interactive?.nfm_reply;
+
+  const responseJson: unknown = nativeFlow?.paramsJson ?? nfmReply?.response_json;
+  if (typeof responseJson !== 'string') return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(responseJson);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  // Other native flow replies (quick replies, lists, payments) carry no flow token
+  const name: string = nativeFlow?.name ?? nfmReply?.name ?? 'flow';
+  if (name !== 'flow' && parsed.flow_token === undefined) return null;
+
+  const { flow_token: flowToken, ...data } = parsed;
+  const response: FlowResponse<T> = { name, data: data as T, responseJson };
+  if (flowToken !== undefined) response.flowToken = String(flowToken);
+
+  const body = interactive?.body?.text ?? nfmReply?.body;
+  if (body !== undefined) response.body = body;
+  if (typeof nativeFlow?.version === 'number') response.version = nativeFlow.version;
+
+  const quotedKey = getQuotedKey(interactive?.contextInfo, message);
+  if (quotedKey) response.quotedKey = quotedKey;
+
+  return response;
+}
@@ -0,0 +1,179 @@
+/**
+ * Legacy output format.
+ *
+ * Older WhatsApp clients do not render native flow messages, so the
+ * 'legacy' format emits the original buttonsMessage / listMessage protos
+ * instead. Those protos only support reply buttons or a single list, so
+ * buttons are checked for legacy compatibility before building.
+ */
+
+import {
+  Button,
+  InteractiveMessageConfig,
+  MessageContent,
+  PreparedHeaderMedia,
+  SingleSelectButton,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning
+} from '../types/index.js';
+import { getButtonType } from './buttons.js';
+
+/**
+ * Maximum number of reply buttons in a legacy buttonsMessage
+ */
+export const MAX_LEGACY_BUTTONS = 3;
+
+/**
+ * ButtonsMessage.HeaderType values of the legacy proto
+ */
+const LEGACY_HEADER_TYPES = {
+  empty: 1,
+  text: 2,
+  document: 3,
+  image: 4,
+  video: 5,
+  location: 6
+} as const;
+
+/**
+ * ButtonsMessage.Button.Type RESPONSE (a plain reply button)
+ */
+const LEGACY_BUTTON_RESPONSE = 1;
+
+/**
+ * ListMessage.ListType SINGLE_SELECT
+ */
+const LEGACY_LIST_SINGLE_SELECT = 1;
+
+/**
+ * Check whether buttons can be expressed with the legacy protos:
+ * up to three reply buttons, or a single single_select list
+ */
+export function validateLegacyButtons(buttons: Button[]): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const types = buttons.map(button => getButtonType(button));
+  const hasList = types.includes('single_select');
+
+  types.forEach((type, index) => {
+    if (type !== 'quick_reply' && type !== 'single_select') {
+      errors.push({
+        path: `buttons[${index}].type`,
+        message: `${type} buttons are not supported by the legacy format`,
+        expected: ['quick_reply', 'single_select'],
+        value: type
+      });
+    }
+  });
+
+  if (hasList && buttons.length > 1) {
+    errors.push({
+      path: 'buttons',
+      message: 'A legacy list message must contain exactly one single_select button',
+      expected: 'array with 1 single_select item',
+      value: buttons.length
+    });
+  }
+
+  if (!hasList && buttons.length > MAX_LEGACY_BUTTONS) {
+    errors.push({
+      path: 'buttons',
+      message: `Legacy buttons messages support at most ${MAX_LEGACY_BUTTONS} buttons`,
+      expected: `array with maximum ${MAX_LEGACY_BUTTONS} items`,
+      value: buttons.length
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Convert a button into its legacy entry:
+ *  - single_select: a listMessage section holding the options as rows
+ *  - anything else: a buttonsMessage reply button
+ */
+export function toLegacyButton(button: Button): any {
+  if (getButtonType(button) === 'single_select') {
+    const { title, options } = button as SingleSelectButton;
+    return {
+      title,
+      rows: options.map(option => ({
+        rowId: option.id,
+        title: option.title,
+        ...(option.description !== undefined && { description: option.description })
+      }))
+    };
+  }
+
+  const legacy = button as any;
+  if (legacy.buttonId && legacy.buttonText) {
+    return {
+      buttonId: legacy.buttonId,
+      buttonText: { displayText: legacy.buttonText.displayText || legacy.buttonText },
+      type: LEGACY_BUTTON_RESPONSE
+    };
+  }
+
+  return {
+    buttonId: legacy.id,
+    buttonText: { displayText: legacy.title },
+    type: LEGACY_BUTTON_RESPONSE
+  };
+}
+
+/**
+ * Build legacy message content (buttonsMessage, or listMessage for a list)
+ *
+ * @param config Message configuration
+ * @param buttons Buttons converted by toLegacyButton
+ * @param preparedHeader Header media prepared by prepareHeaderMedia
+ */
+export function buildLegacyMessageContent(
+  config: InteractiveMessageConfig,
+  buttons: any[],
+  preparedHeader?: PreparedHeaderMedia
+): MessageContent {
+  const section = buttons.find(button => Array.isArray(button.rows));
+
+  if (section) {
+    return {
+      listMessage: {
+        title: config.headerText || '',
+        description: config.body,
+        buttonText: section.title,
+        listType: LEGACY_LIST_SINGLE_SELECT,
+        sections: [{ rows: section.rows }],
+        ...(config.footer && { footerText: config.footer })
+      }
+    };
+  }
+
+  const buttonsMessage: any = {
+    contentText: config.body,
+    buttons,
+    headerType: config.headerText ? LEGACY_HEADER_TYPES.text : LEGACY_HEADER_TYPES.empty
+  };
+
+  // Add optional footer
+  if (config.footer) {
+    buttonsMessage.footerText = config.footer;
+  }
+
+  // Add optional header text
+  if (config.headerText) {
+    buttonsMessage.text = config.headerText;
+  }
+
+  // Media headers carry the uploaded media message directly
+  if (config.headerMedia && preparedHeader) {
+    buttonsMessage.headerType = LEGACY_HEADER_TYPES[config.headerMedia.mediaType];
+    Object.assign(buttonsMessage, preparedHeader);
+  }
+
+  return { buttonsMessage };
+}
@@ -0,0 +1,257 @@
+/**
+ * List messages: a single button opening sections of selectable rows.
+ *
+ * Sent as a native flow single_select button; the section / row limits
+ * WhatsApp enforces are checked before anything is relayed.
+ */
+
+import {
+  InteractiveMessageConfig,
+  ListMessage,
+  ListRow,
+  ListSection,
+  MessageContent,
+  NativeFlowButton,
+  SendListMessageParams,
+  SentInteractiveMessage,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import {
+  buildAdditionalNodes,
+  buildMessageContent,
+  relayMessageContent
+} from './buttons.js';
+import { recordValidationFailure } from './metrics.js';
+import { createMiddlewareContext } from './middleware.js';
+
+/**
+ * Limits WhatsApp enforces on list messages
+ */
+export const LIST_LIMITS = {
+  maxSections: 10,
+  maxRows: 10,
+  buttonTextLength: 20,
+  sectionTitleLength: 24,
+  rowIdLength: 200,
+  rowTitleLength: 24,
+  rowDescriptionLength: 72
+};
+
+/**
+ * Validate rows against the list limits.
+ * Shared by list messages and single_select button options.
+ *
+ * @param rows Rows to validate
+ * @param path Path prefix of the rows array (e.g. "sections[1].rows")
+ * @param seenIds Row ids already used elsewhere in the same list
+ */
+export function validateListRows(
+  rows: ListRow[],
+  path: string,
+  seenIds: Set<string> = new Set()
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowPath = `${path}[${index}]`;
+
+    if (!row || typeof row.id !== 'string' || row.id.length === 0 || row.id.length > LIST_LIMITS.rowIdLength) {
+      errors.push({
+        path: `${rowPath}.id`,
+        message: `Row ID must be a non-empty string (max ${LIST_LIMITS.rowIdLength} chars)`,
+        expected: `string (1-${LIST_LIMITS.rowIdLength} chars)`,
+        value: row?.id
+      });
+    } else if (seenIds.has(row.id)) {
+      errors.push({
+        path: `${rowPath}.id`,
+        message: 'Row ID must be unique within the list',
+        expected: 'unique string',
+        value: row.id
+      });
+    } else {
+      seenIds.add(row.id);
+    }
+
+    if (!row?.title || typeof row.title !== 'string' || row.title.length > LIST_LIMITS.rowTitleLength) {
+      errors.push({
+        path: `${rowPath}.title`,
+        message: `Row title is required (max ${LIST_LIMITS.rowTitleLength} chars)`,
+        expected: `string (1-${LIST_LIMITS.rowTitleLength} chars)`,
+        value: row?.title
+      });
+    }
+
+    if (row?.description !== undefined &&
+        (typeof row.description !== 'string' || row.description.length > LIST_LIMITS.rowDescriptionLength)) {
+      errors.push({
+        path: `${rowPath}.description`,
+        message: `Row description must be a string (max ${LIST_LIMITS.rowDescriptionLength} chars)`,
+        expected: `string (max ${LIST_LIMITS.rowDescriptionLength} chars)`,
+        value: row.description
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a list message against WhatsApp's section / row rules
+ */
+export function validateListMessage(list: ListMessage): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  // Validate body
+  if (!list.body || typeof list.body !== 'string') {
+    errors.push({
+      path: 'body',
+      message: 'Body text is required and must be a string',
+      expected: 'string',
+      value: list.body
+    });
+  }
+
+  // Validate button label
+  if (!list.buttonText || typeof list.buttonText !== 'string' || list.buttonText.length > LIST_LIMITS.buttonTextLength) {
+    errors.push({
+      path: 'buttonText',
+      message: `Button text is required (max ${LIST_LIMITS.buttonTextLength} chars)`,
+      expected: `string (1-${LIST_LIMITS.buttonTextLength} chars)`,
+      value: list.buttonText
+    });
+  }
+
+  // Validate sections
+  if (!Array.isArray(list.sections) || list.sections.length === 0) {
+    errors.push({
+      path: 'sections',
+      message: 'At least one section is required',
+      expected: 'array with minimum 1 item',
+      value: list.sections
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  if (list.sections.length > LIST_LIMITS.maxSections) {
+    errors.push({
+      path: 'sections',
+      message: `A list supports at most ${LIST_LIMITS.maxSections} sections`,
+      expected: `array with maximum ${LIST_LIMITS.maxSections} items`,
+      value: list.sections.length
+    });
+  }
+
+  const seenIds = new Set<string>();
+  let totalRows = 0;
+
+  list.sections.forEach((section, index) => {
+    if (section.title !== undefined &&
+        (typeof section.title !== 'string' || section.title.length > LIST_LIMITS.sectionTitleLength)) {
+      errors.push({
+        path: `sections[${index}].title`,
+        message: `Section title must be a string (max ${LIST_LIMITS.sectionTitleLength} chars)`,
+        expected: `string (max ${LIST_LIMITS.sectionTitleLength} chars)`,
+        value: section.title
+      });
+    } else if (!section.title && list.sections.length > 1) {
+      errors.push({
+        path: `sections[${index}].title`,
+        message: 'Section title is required when the list has more than one section',
+        expected: `string (1-${LIST_LIMITS.sectionTitleLength} chars)`,
+        value: section.title
+      });
+    }
+
+    if (!Array.isArray(section.rows) || section.rows.length === 0) {
+      errors.push({
+        path: `sections[${index}].rows`,
+        message: 'Each section requires at least one row',
+        expected: 'array with minimum 1 item',
+        value: section.rows
+      });
+      return;
+    }
+
+    totalRows += section.rows.length;
+    errors.push(...validateListRows(section.rows, `sections[${index}].rows`, seenIds));
+  });
+
+  if (totalRows > LIST_LIMITS.maxRows) {
+    errors.push({
+      path: 'sections',
+      message: `A list supports at most ${LIST_LIMITS.maxRows} rows in total`,
+      expected: `maximum ${LIST_LIMITS.maxRows} rows`,
+      value: totalRows
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Build the native flow single_select button carrying the list sections
+ */
+export function buildListButton(list: ListMessage): NativeFlowButton {
+  const sections = list.sections.map((section: ListSection) => ({
+    ...(section.title !== undefined && { title: section.title }),
+    rows: section.rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      ...(row.description !== undefined && { description: row.description })
+    }))
+  }));
+
+  return {
+    name: 'single_select',
+    buttonParamsJson: JSON.stringify({ title: list.buttonText, sections })
+  };
+}
+
+/**
+ * Build list message content
+ */
+export function buildListMessageContent(list: ListMessage): MessageContent {
+  const config: InteractiveMessageConfig = { body: list.body };
+  if (list.footer !== undefined) config.footer = list.footer;
+  if (list.headerText !== undefined) config.headerText = list.headerText;
+
+  return buildMessageContent(config, [buildListButton(list)]);
+}
+
+/**
+ * Send a list message
+ */
+export async function sendListMessage(params: SendListMessageParams): Promise<SentInteractiveMessage> {
+  const { socket, jid, list } = params;
+
+  // Validate input
+  const validation = validateListMessage(list);
+  if (!validation.isValid) {
+    recordValidationFailure('sendListMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid list message configuration',
+      'sendListMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  const messageContent = buildListMessageContent(list);
+  const nodes = buildAdditionalNodes(jid, [{
+    type: 'single_select',
+    id: 'list',
+    title: list.buttonText,
+    options: list.sections.flatMap(section => section.rows)
+  }]);
+
+  return relayMessageContent(socket, jid, messageContent, nodes, params, createMiddlewareContext('sendListMessage', jid));
+}
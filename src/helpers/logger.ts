@@ -0,0 +1,45 @@
+/**
+ * Pluggable logger for the send path.
+ *
+ * Nothing is logged until a logger is set; any pino-compatible logger
+ * (pino itself, Baileys' socket.logger, or a small console adapter) works:
+ *
+ *   debug  built content of every relayed message
+ *   info   sent messages and fallbacks
+ *   warn   validation failures
+ *   error  failed sends
+ */
+
+import { Logger } from '../types/index.js';
+
+const noop = () => {};
+
+/**
+ * Default logger, discarding everything
+ */
+export const silentLogger: Logger = {
+  trace: noop,
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Logger set with setLogger()
+ */
+let logger: Logger = silentLogger;
+
+/**
+ * Use a logger for the send path (omit to silence logging again)
+ */
+export function setLogger(next?: Logger): void {
+  logger = next || silentLogger;
+}
+
+/**
+ * Get the logger in use
+ */
+export function getLogger(): Logger {
+  return logger;
+}
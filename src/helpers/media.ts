@@ -0,0 +1,224 @@
+/**
+ * Header media preparation.
+ *
+ * Image, video and document headers are uploaded through the socket's
+ * upload path (Baileys prepareWAMessageMedia, which also derives the
+ * mimetype and jpegThumbnail) before the message is built. Uploads are
+ * cached for MEDIA_CACHE_TTL_MS so the same media is not uploaded twice:
+ * Buffers and streams are keyed by content hash, local files by path, size
+ * and modification time, and URLs by location only (a URL whose content
+ * changes keeps its cached upload until the entry expires). Caption,
+ * mimetype, fileName and jpegThumbnail are applied to the cached upload on
+ * every send.
+ */
+
+import { createHash } from 'crypto';
+import { stat } from 'fs/promises';
+import {
+  BaileysAdapter,
+  HeaderMedia,
+  HeaderMediaAttachment,
+  MediaSource,
+  PreparedHeaderMedia,
+  WASocket
+} from '../types/index.js';
+import { BaileysCapabilityError, MediaUploadError } from '../types/errors.js';
+import { getBaileysAdapter } from './adapter.js';
+
+/**
+ * Maximum number of prepared uploads kept in the cache
+ */
+export const MEDIA_CACHE_LIMIT = 100;
+
+/**
+ * Time (ms) a prepared upload is reused before the media is uploaded again
+ */
+export const MEDIA_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Prepared uploads keyed by media type and content hash
+ */
+const mediaCache = new Map<string, { prepared: PreparedHeaderMedia; expiresAt: number }>();
+
+/**
+ * Drop all cached uploads
+ */
+export function clearMediaCache(): void {
+  mediaCache.clear();
+}
+
+/**
+ * Error codes of network failures that a later upload may get past
+ */
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE',
+  'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'
+];
+
+/**
+ * Check whether an upload failure may succeed on a later attempt: network errors and
+ * 5xx / 408 / 429 responses are retryable, while filesystem errors (ENOENT, ...),
+ * 4xx responses and unreadable or malformed media are not
+ */
+function isRetryableUploadFailure(error: any): boolean {
+  const status = error?.output?.statusCode ?? error?.statusCode ?? error?.response?.status;
+  if (typeof status === 'number') return status >= 500 || status === 408 || status === 429;
+
+  const code = error?.code ?? error?.cause?.code;
+  return typeof code === 'string' && TRANSIENT_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Check whether a value is a readable stream
+ */
+function isReadableStream(value: unknown): value is NodeJS.ReadableStream {
+  return !!value && typeof value === 'object' && typeof (value as any).pipe === 'function';
+}
+
+/**
+ * Read a stream fully into a Buffer
+ */
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Resolve the media source of an attachment header
+ * (`media` takes precedence over the older `mediaUrl`)
+ */
+function getMediaSource(headerMedia: HeaderMediaAttachment): MediaSource {
+  const source = headerMedia.media ?? headerMedia.mediaUrl;
+  if (source === undefined) {
+    throw new MediaUploadError(`No media provided for ${headerMedia.mediaType} header`, 'prepareHeaderMedia', headerMedia.mediaType);
+  }
+  return source;
+}
+
+/**
+ * Check whether a string media source is a URL rather than a file path
+ */
+function isUrl(source: string): boolean {
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(source);
+}
+
+/**
+ * Convert a media source into Baileys' upload input and its cache hash.
+ * URLs are hashed by location, file paths by location, size and modification
+ * time (so a file rewritten in place is uploaded again), Buffers and streams by content.
+ */
+async function toUploadInput(source: MediaSource, mediaType: string): Promise<{ input: any; hash: string }> {
+  if (typeof source === 'string') {
+    // A missing file keeps a location-only key; its upload then fails with the read error
+    const stats = isUrl(source) ? undefined : await stat(source).catch(() => undefined);
+    const version = stats ? `:${stats.size}:${stats.mtimeMs}` : '';
+    return {
+      input: { url: source },
+      hash: createHash('sha256').update(`${source}${version}`).digest('hex')
+    };
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = isReadableStream(source) ? await streamToBuffer(source) : source;
+  } catch (error) {
+    throw new MediaUploadError(`Reading the ${mediaType} header stream failed`, 'prepareHeaderMedia', mediaType, {
+      retryable: isRetryableUploadFailure(error),
+      cause: error
+    });
+  }
+  return {
+    input: buffer,
+    hash: createHash('sha256').update(buffer).digest('hex')
+  };
+}
+
+/**
+ * Apply the per-send fields of a header to a prepared upload
+ * (e.g. { imageMessage: {...} }) without touching the cached object
+ */
+function withSendFields(prepared: PreparedHeaderMedia, headerMedia: HeaderMediaAttachment): PreparedHeaderMedia {
+  const messageKey = `${headerMedia.mediaType}Message`;
+  return {
+    ...prepared,
+    [messageKey]: {
+      ...prepared[messageKey],
+      ...(headerMedia.mediaCaption !== undefined && { caption: headerMedia.mediaCaption }),
+      ...(headerMedia.mimetype !== undefined && { mimetype: headerMedia.mimetype }),
+      ...(headerMedia.fileName !== undefined && { fileName: headerMedia.fileName }),
+      ...(headerMedia.jpegThumbnail !== undefined && { jpegThumbnail: headerMedia.jpegThumbnail })
+    }
+  };
+}
+
+/**
+ * Prepare a header media attachment for sending.
+ * Location headers need no upload and are returned directly.
+ *
+ * @param socket Socket providing waUploadToServer
+ * @param headerMedia Header media configuration
+ * @param baileys Adapter to use (defaults to the configured / auto-detected one)
+ * @returns Media message for the header (e.g. { imageMessage: {...} })
+ */
+export async function prepareHeaderMedia(
+  socket: WASocket,
+  headerMedia: HeaderMedia,
+  baileys?: BaileysAdapter
+): Promise<PreparedHeaderMedia> {
+  if (headerMedia.mediaType === 'location') {
+    return {
+      locationMessage: {
+        degreesLatitude: headerMedia.latitude,
+        degreesLongitude: headerMedia.longitude,
+        ...(headerMedia.name !== undefined && { name: headerMedia.name }),
+        ...(headerMedia.address !== undefined && { address: headerMedia.address })
+      }
+    };
+  }
+
+  const { input, hash } = await toUploadInput(getMediaSource(headerMedia), headerMedia.mediaType);
+  const cacheKey = `${headerMedia.mediaType}:${hash}`;
+  const cached = mediaCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return withSendFields(cached.prepared, headerMedia);
+  mediaCache.delete(cacheKey);
+
+  if (!socket.waUploadToServer) {
+    throw new MediaUploadError(
+      'Socket does not provide waUploadToServer; cannot upload header media',
+      'prepareHeaderMedia',
+      headerMedia.mediaType
+    );
+  }
+
+  const adapter = baileys || await getBaileysAdapter();
+  let prepared: PreparedHeaderMedia;
+  try {
+    prepared = await adapter.prepareWAMessageMedia(
+      { [headerMedia.mediaType]: input },
+      {
+        upload: socket.waUploadToServer,
+        logger: socket.logger
+      }
+    );
+  } catch (error) {
+    if (error instanceof BaileysCapabilityError) throw error;
+    throw new MediaUploadError(
+      `Uploading the ${headerMedia.mediaType} header failed`,
+      'prepareHeaderMedia',
+      headerMedia.mediaType,
+      { retryable: isRetryableUploadFailure(error), cause: error }
+    );
+  }
+
+  // Evict the oldest entry once the cache is full
+  if (mediaCache.size >= MEDIA_CACHE_LIMIT) {
+    const oldestKey = mediaCache.keys().next().value;
+    if (oldestKey !== undefined) mediaCache.delete(oldestKey);
+  }
+  mediaCache.set(cacheKey, { prepared, expiresAt: Date.now() + MEDIA_CACHE_TTL_MS });
+
+  return withSendFields(prepared, headerMedia);
+}
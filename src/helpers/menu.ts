@@ -0,0 +1,211 @@
+/**
+ * Declarative menu definitions loaded from JSON or YAML files.
+ *
+ * A menu file lists the screens of a conversation flow:
+ *
+ *   initialScreen: main
+ *   screens:
+ *     - id: main
+ *       body: How can we help?
+ *       footer: Support is online 24/7
+ *       buttons:
+ *         - id: orders
+ *           title: My orders
+ *           next: orders        # screen shown when this button is tapped
+ *     - id: orders
+ *       ...
+ *
+ * Files are validated at load time; every error carries the file and line
+ * it comes from, and watchMenuFile reloads the menu whenever the file changes.
+ */
+
+import { watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, dirname, extname } from 'path';
+import {
+  Button,
+  FlowScreen,
+  InteractiveMessageConfig,
+  MenuDefinition,
+  MenuFileFormat,
+  MenuWatcher,
+  ValidationError,
+  ValidationWarning,
+  WatchMenuOptions
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { validateInteractiveMessage } from './buttons.js';
+import { getLogger } from './logger.js';
+import { findLine, parseJsonWithLines, parseYamlWithLines } from './parsers.js';
+
+/**
+ * Screen fields copied into the message configuration
+ */
+const CONFIG_FIELDS: Array<keyof InteractiveMessageConfig> = ['body', 'footer', 'headerType', 'headerText', 'headerMedia'];
+
+/**
+ * Default delay before reloading a changed file (editors often write in several steps)
+ */
+export const MENU_RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * Pick the parser from the file extension
+ */
+export function detectMenuFormat(file: string): MenuFileFormat {
+  return ['.yaml', '.yml'].includes(extname(file).toLowerCase()) ? 'yaml' : 'json';
+}
+
+/**
+ * Check whether a value is an object (and not an array)
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a menu definition
+ *
+ * @param text File contents
+ * @param file File name reported in error locations
+ * @param format Source format (detected from the file extension by default)
+ */
+export function parseMenuDefinition(
+  text: string,
+  file: string = 'menu.json',
+  format: MenuFileFormat = detectMenuFormat(file)
+): MenuDefinition {
+  const { value, lines } = format === 'yaml' ? parseYamlWithLines(text, file) : parseJsonWithLines(text, file);
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const addError = (error: ValidationError) => {
+    const line = findLine(lines, error.path);
+    errors.push(line !== undefined ? { ...error, location: { file, line } } : error);
+  };
+
+  if (!isObject(value) || !Array.isArray(value['screens']) || value['screens'].length === 0) {
+    addError({
+      path: 'screens',
+      message: 'Menu must declare a non-empty screens list',
+      expected: 'array with minimum 1 item',
+      value: isObject(value) ? value['screens'] : value
+    });
+    throw new InteractiveValidationError(`Invalid menu definition in ${file}`, file, errors);
+  }
+
+  const links: Array<{ path: string; target: unknown }> = [];
+  const ids = new Set<string>();
+
+  const screens: FlowScreen[] = (value['screens'] as unknown[]).map((rawScreen, index) => {
+    const path = `screens[${index}]`;
+    const raw = isObject(rawScreen) ? rawScreen : {};
+
+    if (typeof raw['id'] !== 'string' || raw['id'] === '') {
+      addError({ path: `${path}.id`, message: 'Screen ID is required', expected: 'non-empty string', value: raw['id'] });
+    } else if (ids.has(raw['id'])) {
+      addError({ path: `${path}.id`, message: 'Screen ID must be unique', expected: 'unique string', value: raw['id'] });
+    }
+    ids.add(raw['id']);
+
+    const config = {} as InteractiveMessageConfig;
+    CONFIG_FIELDS.forEach(field => {
+      if (raw[field] !== undefined) (config as any)[field] = raw[field];
+    });
+
+    // Per-button "next" links become the screen's next map
+    const next: { [replyId: string]: string } = { ...(isObject(raw['next']) ? raw['next'] : {}) };
+    Object.entries(next).forEach(([replyId, target]) => links.push({ path: `${path}.next.${replyId}`, target }));
+
+    const rawButtons: unknown[] = Array.isArray(raw['buttons']) ? raw['buttons'] : [];
+    const buttons = rawButtons.map((rawButton, buttonIndex) => {
+      if (!isObject(rawButton)) return rawButton as Button;
+      const { next: target, ...button } = rawButton;
+      if (target !== undefined) {
+        next[button['id']] = target;
+        links.push({ path: `${path}.buttons[${buttonIndex}].next`, target });
+      }
+      return button as Button;
+    });
+
+    const validation = validateInteractiveMessage(config, buttons);
+    validation.errors.forEach(error => addError({ ...error, path: `${path}.${error.path}` }));
+    validation.warnings.forEach(warning => warnings.push({ ...warning, path: `${path}.${warning.path}` }));
+
+    const screen: FlowScreen = { id: raw['id'], config, buttons };
+    if (Object.keys(next).length > 0) screen.next = next;
+    return screen;
+  });
+
+  // Links must point at declared screens
+  const initialScreen = value['initialScreen'] ?? screens[0]!.id;
+  if (!ids.has(initialScreen)) {
+    addError({ path: 'initialScreen', message: 'Initial screen is not declared', expected: Array.from(ids), value: initialScreen });
+  }
+  links.forEach(({ path, target }) => {
+    if (typeof target !== 'string' || !ids.has(target)) {
+      addError({ path, message: 'Linked screen is not declared', expected: Array.from(ids), value: target });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new InteractiveValidationError(`Invalid menu definition in ${file}`, file, errors, warnings);
+  }
+
+  return { initialScreen, screens };
+}
+
+/**
+ * Read and validate a menu file
+ */
+export async function loadMenuFile(file: string, format?: MenuFileFormat): Promise<MenuDefinition> {
+  const text = await readFile(file, 'utf8');
+  return parseMenuDefinition(text, file, format ?? detectMenuFormat(file));
+}
+
+/**
+ * Reload a menu file whenever it changes.
+ * An invalid edit is reported to `onError` (or logged when there is none)
+ * and the previous menu stays in use. When the watched directory fails
+ * (removed, unreadable), watching stops and the error is logged and
+ * reported to `onError`.
+ *
+ * @param file Menu file to watch
+ * @param onReload Called with every successfully reloaded menu
+ */
+export function watchMenuFile(
+  file: string,
+  onReload: (menu: MenuDefinition) => void | Promise<void>,
+  options: WatchMenuOptions = {}
+): MenuWatcher {
+  const { debounceMs = MENU_RELOAD_DEBOUNCE_MS, onError } = options;
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = async () => {
+    try {
+      await onReload(await loadMenuFile(file));
+    } catch (error) {
+      if (onError) onError(error);
+      else getLogger().error({ file, err: error }, 'menu reload failed');
+    }
+  };
+
+  // Watch the directory so editors that replace the file (rename on save) keep being followed
+  const watcher = watch(dirname(file), (_event, changed) => {
+    if (changed && changed.toString() !== basename(file)) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(reload, debounceMs);
+  });
+
+  const close = () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+
+  // The directory was removed or became unreadable: stop watching instead of crashing
+  watcher.on('error', error => {
+    close();
+    getLogger().error({ file, err: error }, 'menu watcher failed, reloading stopped');
+    if (onError) onError(error);
+  });
+
+  return { close };
+}
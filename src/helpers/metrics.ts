@@ -0,0 +1,199 @@
+/**
+ * Metrics of the send path.
+ *
+ * Counters for sent messages (by sending function), sent buttons (by
+ * type), validation failures (by rule), failed sends and fallbacks, and a
+ * histogram of relay latency. getStats() returns a snapshot; the same
+ * numbers are available in the Prometheus text format:
+ *
+ *   http.createServer(prometheusHandler).listen(9464);
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { HelperStats, MessageContent, ValidationError } from '../types/index.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Upper bounds (seconds) of the relay latency histogram buckets
+ */
+export const RELAY_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Prefix of exported Prometheus metric names
+ */
+export const PROMETHEUS_PREFIX = 'baileys_helper';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Empty statistics
+ */
+function createStats(): HelperStats {
+  return {
+    messagesSent: {},
+    buttonsSent: {},
+    validationFailures: {},
+    sendFailures: {},
+    fallbacks: {},
+    relayLatencySeconds: {
+      buckets: RELAY_LATENCY_BUCKETS.map(le => ({ le, count: 0 })),
+      count: 0,
+      sum: 0
+    }
+  };
+}
+
+/**
+ * Statistics since start (or the last resetStats())
+ */
+let stats: HelperStats = createStats();
+
+/**
+ * Increment a labelled counter
+ */
+function increment(counter: { [label: string]: number }, label: string): void {
+  counter[label] = (counter[label] ?? 0) + 1;
+}
+
+/**
+ * Button types carried by built content (native flow names, legacy reply buttons and lists)
+ */
+export function getContentButtonTypes(content: MessageContent): string[] {
+  if (content.protocolMessage?.editedMessage) return getContentButtonTypes(content.protocolMessage.editedMessage);
+
+  const nativeFlowButtons = [
+    ...(content.interactiveMessage?.nativeFlowMessage?.buttons ?? []),
+    ...(content.interactiveMessage?.carouselMessage?.cards ?? []).flatMap(card => card.nativeFlowMessage?.buttons ?? [])
+  ];
+  const types: string[] = nativeFlowButtons.map(button => button?.name ?? 'custom');
+
+  (content.buttonsMessage?.buttons ?? []).forEach(() => types.push('quick_reply'));
+  if (content.listMessage) types.push('single_select');
+  return types;
+}
+
+/**
+ * Record a relayed message
+ *
+ * @param operation Name of the sending function
+ * @param durationSeconds Time the relay took
+ */
+export function recordSent(operation: string, content: MessageContent, durationSeconds: number): void {
+  increment(stats.messagesSent, operation);
+  getContentButtonTypes(content).forEach(type => increment(stats.buttonsSent, type));
+
+  const latency = stats.relayLatencySeconds;
+  latency.count++;
+  latency.sum += durationSeconds;
+  latency.buckets.forEach(bucket => {
+    if (durationSeconds <= bucket.le) bucket.count++;
+  });
+}
+
+/**
+ * Record a failed send
+ */
+export function recordSendFailure(operation: string): void {
+  increment(stats.sendFailures, operation);
+}
+
+/**
+ * Record a message sent as a poll or text menu
+ */
+export function recordFallback(strategy: string): void {
+  increment(stats.fallbacks, strategy);
+}
+
+/**
+ * Record a message rejected by validation, once per failed rule.
+ * Rules are named by error path without indices (buttons[2].url -> buttons[].url).
+ *
+ * @param operation Name of the sending function
+ */
+export function recordValidationFailure(operation: string, errors: ValidationError[]): void {
+  const rules = new Set(errors.map(error => error.path.replace(/\[\d+\]/g, '[]')));
+  rules.forEach(rule => increment(stats.validationFailures, rule));
+  getLogger().warn({ operation, errors }, 'validation failed');
+}
+
+/**
+ * Snapshot of the statistics
+ */
+export function getStats(): HelperStats {
+  const latency = stats.relayLatencySeconds;
+  return {
+    messagesSent: { ...stats.messagesSent },
+    buttonsSent: { ...stats.buttonsSent },
+    validationFailures: { ...stats.validationFailures },
+    sendFailures: { ...stats.sendFailures },
+    fallbacks: { ...stats.fallbacks },
+    relayLatencySeconds: {
+      buckets: latency.buckets.map(bucket => ({ ...bucket })),
+      count: latency.count,
+      sum: latency.sum
+    }
+  };
+}
+
+/**
+ * Reset every counter and the latency histogram
+ */
+export function resetStats(): void {
+  stats = createStats();
+}
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Lines of a labelled counter
+ */
+function formatCounter(name: string, help: string, label: string, counter: { [value: string]: number }): string[] {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} counter`,
+    ...Object.entries(counter).map(([value, count]) => `${name}{${label}="${escapeLabel(value)}"} ${count}`)
+  ];
+}
+
+/**
+ * Render the statistics in the Prometheus text exposition format
+ *
+ * @param prefix Prefix of the metric names
+ */
+export function formatPrometheusMetrics(prefix: string = PROMETHEUS_PREFIX): string {
+  const { relayLatencySeconds: latency, ...counters } = getStats();
+  const latencyName = `${prefix}_relay_duration_seconds`;
+
+  const lines = [
+    ...formatCounter(`${prefix}_messages_sent_total`, 'Messages relayed, by sending function.', 'operation', counters.messagesSent),
+    ...formatCounter(`${prefix}_buttons_sent_total`, 'Buttons in relayed messages, by button type.', 'type', counters.buttonsSent),
+    ...formatCounter(`${prefix}_validation_failures_total`, 'Messages rejected by validation, by failed rule.', 'rule', counters.validationFailures),
+    ...formatCounter(`${prefix}_send_failures_total`, 'Failed relays, by sending function.', 'operation', counters.sendFailures),
+    ...formatCounter(`${prefix}_fallbacks_total`, 'Messages sent as a poll or text menu, by strategy.', 'strategy', counters.fallbacks),
+    `# HELP ${latencyName} Time taken to relay a message.`,
+    `# TYPE ${latencyName} histogram`,
+    ...latency.buckets.map(bucket => `${latencyName}_bucket{le="${bucket.le}"} ${bucket.count}`),
+    `${latencyName}_bucket{le="+Inf"} ${latency.count}`,
+    `${latencyName}_sum ${latency.sum}`,
+    `${latencyName}_count ${latency.count}`
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * HTTP request handler serving the Prometheus metrics, for http.createServer
+ * or as a route of an existing server
+ */
+export function prometheusHandler(_req: IncomingMessage, res: ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+  res.end(formatPrometheusMetrics());
+}
@@ -0,0 +1,158 @@
+/**
+ * Middleware pipeline around message building and sending.
+ *
+ * Registered middleware is called, in registration order, at each stage of
+ * a send:
+ *
+ *   beforeValidate  config and buttons, before they are validated
+ *   afterNormalize  normalized buttons, before the message content is built
+ *   beforeRelay     message content, binary nodes and relay options
+ *   afterSend       the sent message (result)
+ *   onError         any error thrown along the way (rethrown afterwards)
+ *
+ * Hooks receive one context object per send and may mutate or replace its
+ * fields; `state` carries data between the hooks of the same send.
+ *
+ * beforeValidate and afterNormalize run for messages built from config and
+ * buttons (sendInteractiveMessage and its callers, edits and bulk sends);
+ * fallbacks skip afterNormalize, and carousels, lists, single products and
+ * revokes start at beforeRelay. Middleware listing its `operations` only runs
+ * for those, and cannot take hooks for stages none of them reach.
+ */
+
+import {
+  BuiltMiddlewareOperation,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareHook,
+  MiddlewareOperation,
+  MiddlewareStage,
+  ScopedMiddleware,
+  ValidationError
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+
+/**
+ * Operations building their message from config and buttons (every stage runs)
+ */
+const BUILT_OPERATIONS: readonly BuiltMiddlewareOperation[] = [
+  'sendInteractiveMessage',
+  'editInteractiveMessage',
+  'sendBulkInteractive'
+];
+
+/**
+ * Stages only sends built from config and buttons reach
+ */
+const BUILD_STAGES = ['beforeValidate', 'afterNormalize'] as const;
+
+/**
+ * Middleware added with useMiddleware()
+ */
+const registry: Middleware[] = [];
+
+/**
+ * Errors already passed to onError (an error crossing several stages is reported once)
+ */
+const reportedErrors = new WeakSet<object>();
+
+/**
+ * Add middleware to every send, or to the sends of its `operations`
+ *
+ * @returns Function removing the middleware again
+ * @throws InteractiveValidationError when it has hooks for stages none of its operations run
+ */
+export function useMiddleware<const T extends Middleware>(middleware: ScopedMiddleware<T>): () => void {
+  const { operations } = middleware;
+  if (operations && !operations.some(operation => (BUILT_OPERATIONS as readonly string[]).includes(operation))) {
+    const errors: ValidationError[] = BUILD_STAGES
+      .filter(stage => middleware[stage] !== undefined)
+      .map(stage => ({
+        path: stage,
+        message: `${stage} never runs for ${operations.join(', ')}`,
+        expected: `one of the operations ${BUILT_OPERATIONS.join(', ')}`,
+        value: operations
+      }));
+
+    if (errors.length > 0) {
+      throw new InteractiveValidationError('Middleware has hooks its operations never run', 'useMiddleware', errors);
+    }
+  }
+
+  registry.push(middleware);
+  return () => removeMiddleware(middleware);
+}
+
+/**
+ * Remove middleware added with useMiddleware()
+ */
+export function removeMiddleware(middleware: Middleware): void {
+  const index = registry.indexOf(middleware);
+  if (index !== -1) registry.splice(index, 1);
+}
+
+/**
+ * Remove all middleware
+ */
+export function clearMiddleware(): void {
+  registry.length = 0;
+}
+
+/**
+ * Registered middleware, in call order
+ */
+export function getMiddleware(): Middleware[] {
+  return [...registry];
+}
+
+/**
+ * Start the context of one send
+ *
+ * @param operation Name of the sending function
+ */
+export function createMiddlewareContext(operation: MiddlewareOperation, jid: string): MiddlewareContext {
+  return { operation, jid, state: {} };
+}
+
+/**
+ * Middleware applying to the operation of a send, in call order
+ */
+function getMiddlewareFor(context: MiddlewareContext): Middleware[] {
+  return registry.filter(middleware => !middleware.operations || middleware.operations.includes(context.operation));
+}
+
+/**
+ * Run the hooks of a stage one after the other
+ *
+ * @returns Whether any middleware has a hook for the stage
+ */
+export async function runMiddleware(stage: MiddlewareStage, context: MiddlewareContext): Promise<boolean> {
+  const hooks = getMiddlewareFor(context)
+    .map(middleware => middleware[stage])
+    .filter((hook): hook is MiddlewareHook => hook !== undefined);
+
+  for (const hook of hooks) {
+    await hook(context);
+  }
+  return hooks.length > 0;
+}
+
+/**
+ * Pass an error to the onError hooks.
+ * Failing hooks are ignored so the original error is the one rethrown.
+ */
+export async function reportMiddlewareError(context: MiddlewareContext, error: unknown): Promise<void> {
+  if (typeof error === 'object' && error !== null) {
+    if (reportedErrors.has(error)) return;
+    reportedErrors.add(error);
+  }
+
+  context.error = error;
+  for (const middleware of getMiddlewareFor(context)) {
+    try {
+      await middleware.onError?.(context, error);
+    } catch {
+      // Keep the original error
+    }
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Mock socket and assertion helpers for exercising the send pipeline
+ * without a live WhatsApp connection.
+ *
+ * createMockSocket records every relayMessage / sendMessage call and decodes
+ * the relayed proto (as it arrives after encoding) and additional binary nodes
+ * into plain objects, so each Button variant can be asserted on or
+ * snapshot-tested offline.
+ */
+
+import assert from 'assert';
+import {
+  BinaryNode,
+  Button,
+  DecodedMessage,
+  DecodedMessageExpectation,
+  MockSocket,
+  MockSocketOptions,
+  NativeFlowButton
+} from '../types/index.js';
+import { unwrapMessageContent } from './responses.js';
+import { parseNativeFlowButton } from './serializers.js';
+
+/**
+ * Top-level Message fields a relayed message may carry. Like proto.Message.fromObject,
+ * decoding a plain object (no proto instance) drops every other key.
+ */
+const MESSAGE_FIELDS = [
+  'conversation',
+  'extendedTextMessage',
+  'interactiveMessage',
+  'buttonsMessage',
+  'listMessage',
+  'productMessage',
+  'pollCreationMessage',
+  'pollCreationMessageV3',
+  'protocolMessage',
+  'ephemeralMessage',
+  'viewOnceMessage',
+  'viewOnceMessageV2',
+  'viewOnceMessageV2Extension',
+  'documentWithCaptionMessage',
+  'messageContextInfo'
+];
+
+/**
+ * What WhatsApp receives of a relayed message: proto instances are encoded and
+ * decoded again (unknown fields are lost on the wire), plain objects keep their
+ * Message fields only
+ */
+function toWireMessage(message: any): any {
+  const Message = message?.constructor;
+  if (typeof Message?.encode === 'function' && typeof Message.decode === 'function' && typeof Message.toObject === 'function') {
+    return Message.toObject(Message.decode(Message.encode(message).finish()), { longs: Number });
+  }
+
+  if (!message || typeof message !== 'object') return message;
+  return Object.fromEntries(Object.entries(message).filter(([field]) => MESSAGE_FIELDS.includes(field)));
+}
+
+/**
+ * Decode native flow button entries; entries that cannot be parsed into a typed
+ * button are returned separately, unchanged
+ */
+function decodeNativeFlowButtons(entries: NativeFlowButton[] = []): { buttons: Button[]; unparsedButtons: NativeFlowButton[] } {
+  const buttons: Button[] = [];
+  const unparsedButtons: NativeFlowButton[] = [];
+
+  entries.forEach(entry => {
+    try {
+      buttons.push(parseNativeFlowButton(entry));
+    } catch {
+      unparsedButtons.push(entry);
+    }
+  });
+
+  return { buttons, unparsedButtons };
+}
+
+/**
+ * Read body, footer, header and buttons of an interactiveMessage proto
+ */
+function decodeInteractiveMessage(interactiveMessage: any): Partial<DecodedMessage> {
+  const { buttons, unparsedButtons } = decodeNativeFlowButtons(interactiveMessage?.nativeFlowMessage?.buttons);
+  const decoded: Partial<DecodedMessage> = { buttons };
+
+  if (unparsedButtons.length > 0) decoded.unparsedButtons = unparsedButtons;
+  if (interactiveMessage?.body?.text !== undefined) decoded.body = interactiveMessage.body.text;
+  if (interactiveMessage?.footer?.text !== undefined) decoded.footer = interactiveMessage.footer.text;
+  if (interactiveMessage?.header !== undefined) decoded.header = interactiveMessage.header;
+
+  return decoded;
+}
+
+/**
+ * Find the name of the native flow the biz node announces
+ */
+function getNativeFlowName(bizNode?: BinaryNode): string | undefined {
+  if (!bizNode) return undefined;
+  if (bizNode.attrs['native_flow_name']) return bizNode.attrs['native_flow_name'];
+
+  const interactive = Array.isArray(bizNode.content) ? bizNode.content[0] : undefined;
+  const nativeFlow = Array.isArray(interactive?.content) ? interactive!.content[0] : undefined;
+  return nativeFlow?.attrs['name'];
+}
+
+/**
+ * Decode a relayed message and its additional nodes into an inspectable object
+ *
+ * @param jid Recipient JID
+ * @param message Message proto that was relayed (or content given to sendMessage)
+ * @param additionalNodes Binary nodes relayed next to the message
+ * @param messageId Relayed message ID
+ */
+export function decodeRelayedMessage(
+  jid: string,
+  message: any,
+  additionalNodes: BinaryNode[] = [],
+  messageId?: string
+): DecodedMessage {
+  const content = unwrapMessageContent(message) || {};
+  const bizNode = additionalNodes.find(node => node.tag === 'biz');
+  const decoded: DecodedMessage = {
+    jid,
+    kind: 'unknown',
+    buttons: [],
+    additionalNodes,
+    hasBotNode: additionalNodes.some(node => node.tag === 'bot'),
+    raw: message
+  };
+
+  if (messageId !== undefined) decoded.messageId = messageId;
+  if (bizNode) decoded.bizNode = bizNode;
+  const nativeFlowName = getNativeFlowName(bizNode);
+  if (nativeFlowName !== undefined) decoded.nativeFlowName = nativeFlowName;
+
+  const interactiveMessage = content.interactiveMessage;
+
+  if (interactiveMessage?.carouselMessage) {
+    const cards: any[] = interactiveMessage.carouselMessage.cards || [];
+    decoded.kind = 'carousel';
+    decoded.cards = cards.map(card => ({
+      jid,
+      kind: 'native_flow',
+      buttons: [],
+      additionalNodes: [],
+      hasBotNode: false,
+      raw: card,
+      ...decodeInteractiveMessage(card)
+    }));
+    decoded.buttons = decoded.cards.flatMap(card => card.buttons);
+    if (interactiveMessage.body?.text !== undefined) decoded.body = interactiveMessage.body.text;
+    if (interactiveMessage.footer?.text !== undefined) decoded.footer = interactiveMessage.footer.text;
+  } else if (interactiveMessage?.nativeFlowMessage) {
+    decoded.kind = 'native_flow';
+    Object.assign(decoded, decodeInteractiveMessage(interactiveMessage));
+  } else if (content.buttonsMessage) {
+    const { buttonsMessage } = content;
+    decoded.kind = 'buttons';
+    decoded.body = buttonsMessage.contentText;
+    if (buttonsMessage.footerText !== undefined) decoded.footer = buttonsMessage.footerText;
+    if (buttonsMessage.text !== undefined) decoded.header = { text: buttonsMessage.text };
+    decoded.buttons = (buttonsMessage.buttons || []).map((button: any) => ({
+      type: 'quick_reply',
+      id: button.buttonId,
+      title: button.buttonText?.displayText
+    }));
+  } else if (content.listMessage) {
+    const { listMessage } = content;
+    decoded.kind = 'list';
+    decoded.body = listMessage.description;
+    if (listMessage.footerText !== undefined) decoded.footer = listMessage.footerText;
+    if (listMessage.title) decoded.header = { text: listMessage.title };
+    // Legacy lists carry no button ID, so the list is decoded with an empty one
+    decoded.buttons = [{
+      type: 'single_select',
+      id: '',
+      title: listMessage.buttonText,
+      options: (listMessage.sections || []).flatMap((section: any) => section.rows || []).map((row: any) => ({
+        id: row.rowId,
+        title: row.title,
+        ...(row.description !== undefined && { description: row.description })
+      }))
+    }];
+  } else if (content.productMessage) {
+    const { productMessage } = content;
+    decoded.kind = 'product';
+    decoded.body = productMessage.body;
+    decoded.footer = productMessage.footer;
+    decoded.header = productMessage.product;
+  } else if (content.poll || content.pollCreationMessage) {
+    const poll = content.poll || content.pollCreationMessage;
+    decoded.kind = 'poll';
+    decoded.body = poll.name;
+    decoded.buttons = (poll.values || poll.options?.map((option: any) => option.optionName) || [])
+      .map((title: string, index: number) => ({ type: 'quick_reply', id: String(index + 1), title }));
+  } else if (typeof content.text === 'string' || typeof content.conversation === 'string') {
+    decoded.kind = 'text';
+    decoded.body = content.text ?? content.conversation;
+  }
+
+  // Drop fields the decoders left undefined
+  (Object.keys(decoded) as Array<keyof DecodedMessage>).forEach(key => {
+    if (decoded[key] === undefined) delete decoded[key];
+  });
+
+  return decoded;
+}
+
+/**
+ * Create a socket that records and decodes every message instead of sending it
+ *
+ * @param options Own user JID, and an error to throw from relayMessage (to test failures)
+ */
+export function createMockSocket(options: MockSocketOptions = {}): MockSocket {
+  let counter = 0;
+  const nextId = () => `MOCK${String(++counter).padStart(8, '0')}`;
+
+  const socket: MockSocket = {
+    user: { id: options.userId || '0000000000@s.whatsapp.net' },
+    calls: [],
+    uploads: [],
+
+    relayMessage: async (jid, message, relayOptions) => {
+      if (options.relayError) throw options.relayError;
+
+      const messageId = relayOptions.messageId || nextId();
+      socket.calls.push({
+        method: 'relayMessage',
+        jid,
+        message,
+        options: relayOptions,
+        decoded: decodeRelayedMessage(jid, toWireMessage(message), relayOptions.additionalNodes, messageId)
+      });
+      return messageId;
+    },
+
+    sendMessage: async (jid, message, sendOptions) => {
+      const messageId = nextId();
+      socket.calls.push({
+        method: 'sendMessage',
+        jid,
+        message,
+        options: sendOptions,
+        decoded: decodeRelayedMessage(jid, message, [], messageId)
+      });
+      return {
+        key: { remoteJid: jid, fromMe: true, id: messageId },
+        message,
+        messageTimestamp: Math.floor(Date.now() / 1000)
+      };
+    },
+
+    waUploadToServer: async (filePath: any, uploadOptions: any) => {
+      const index = socket.uploads.push({ filePath, options: uploadOptions });
+      return {
+        mediaUrl: `https://mmg.whatsapp.net/mock/${index}`,
+        directPath: `/mock/${index}`
+      };
+    },
+
+    sent: () => socket.calls.map(call => call.decoded),
+    lastSent: () => socket.calls[socket.calls.length - 1]?.decoded,
+    reset: () => {
+      socket.calls.length = 0;
+      socket.uploads.length = 0;
+    }
+  };
+
+  return socket;
+}
+
+/**
+ * Assert that the mock socket sent a message matching the expectation
+ *
+ * @param socket Mock socket created by createMockSocket
+ * @param expected Fields the last sent message must match
+ * @returns The decoded message, for further assertions
+ */
+export function assertSent(socket: MockSocket, expected: DecodedMessageExpectation = {}): DecodedMessage {
+  const decoded = socket.lastSent();
+  assert.ok(decoded, 'Expected the mock socket to have sent a message');
+
+  const { buttonCount, ...fields } = expected;
+  Object.entries(fields).forEach(([field, value]) => {
+    assert.deepStrictEqual(decoded[field as keyof DecodedMessage], value, `Unexpected ${field} in sent message`);
+  });
+
+  if (buttonCount !== undefined) {
+    assert.strictEqual(decoded.buttons.length, buttonCount, 'Unexpected number of buttons in sent message');
+  }
+
+  return decoded;
+}
+
+/**
+ * Assert that decoded buttons match the expected ones, comparing only the given fields
+ *
+ * @param decoded Message decoded by the mock socket
+ * @param expected Expected buttons, in order
+ */
+export function assertButtons(decoded: DecodedMessage, expected: Array<Partial<Button>>): void {
+  assert.strictEqual(decoded.buttons.length, expected.length, 'Unexpected number of buttons');
+
+  expected.forEach((button, index) => {
+    const actual = Object.fromEntries(Object.entries(decoded.buttons[index] ?? {}));
+    Object.entries(button).forEach(([field, value]) => {
+      assert.deepStrictEqual(actual[field], value, `Unexpected ${field} in buttons[${index}]`);
+    });
+  });
+}
+
+/**
+ * Stable, serializable view of a decoded message for snapshot tests
+ * (drops the generated message ID and the raw proto)
+ */
+export function toSnapshot(decoded: DecodedMessage): Omit<DecodedMessage, 'messageId' | 'raw'> {
+  const { messageId, raw, cards, ...snapshot } = decoded;
+  return cards ? { ...snapshot, cards: cards.map(card => toSnapshot(card) as DecodedMessage) } : snapshot;
+}
@@ -0,0 +1,194 @@
+/**
+ * Location-aware parsers for menu definition files.
+ *
+ * Both parsers return the parsed value plus the line every value starts
+ * on, keyed by the same paths validation errors use ("screens[0].buttons[1].title"),
+ * so errors can point at the line to fix.
+ *
+ * YAML is parsed by the yaml package (YAML 1.2); lines are taken from the
+ * ranges of its document nodes.
+ */
+
+import { LineCounter, isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+import { SourceLocation, ValidationError } from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+
+/**
+ * Parsed value with the line of every path
+ */
+export interface ParsedSource {
+  value: any;
+  lines: Map<string, number>;
+}
+
+/**
+ * Join a parent path and a key or index
+ */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Find the line of a path, falling back to its closest parent
+ */
+export function findLine(lines: Map<string, number>, path: string): number | undefined {
+  let current = path;
+  for (;;) {
+    const line = lines.get(current);
+    if (line !== undefined || !current) return line;
+    const parent = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    current = parent === current ? '' : parent;
+  }
+}
+
+/**
+ * Throw a syntax error located in the source file
+ */
+function syntaxError(file: string, line: number, message: string, value?: any): never {
+  const location: SourceLocation = { file, line };
+  const error: ValidationError = { path: 'document', message, expected: 'valid syntax', value, location };
+  throw new InteractiveValidationError(`Syntax error in ${file}:${line}`, file, [error]);
+}
+
+/**
+ * JSON string and literal tokens, matched at the current position (sticky)
+ */
+const JSON_STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const JSON_LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+/**
+ * Parse JSON, recording the line of every value
+ */
+export function parseJsonWithLines(text: string, file: string): ParsedSource {
+  const lines = new Map<string, number>();
+  let index = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index]!)) {
+      if (text[index] === '\n') line++;
+      index++;
+    }
+  };
+
+  const fail = (message: string): never => syntaxError(file, line, message, text.slice(index, index + 20));
+
+  const parseValue = (path: string): any => {
+    skipWhitespace();
+    lines.set(path, line);
+    const char = text[index];
+
+    if (char === '{') {
+      index++;
+      const object: Record<string, any> = {};
+      skipWhitespace();
+      if (text[index] === '}') { index++; return object; }
+      for (;;) {
+        skipWhitespace();
+        if (text[index] !== '"') fail('Expected a property name');
+        const key = parseString();
+        skipWhitespace();
+        if (text[index] !== ':') fail('Expected ":" after property name');
+        index++;
+        // Defined rather than assigned, so a "__proto__" key stays a plain property
+        Object.defineProperty(object, key, {
+          value: parseValue(childPath(path, key)),
+          enumerable: true,
+          writable: true,
+          configurable: true
+        });
+        skipWhitespace();
+        if (text[index] === ',') { index++; continue; }
+        if (text[index] === '}') { index++; return object; }
+        fail('Expected "," or "}"');
+      }
+    }
+
+    if (char === '[') {
+      index++;
+      const array: any[] = [];
+      skipWhitespace();
+      if (text[index] === ']') { index++; return array; }
+      for (;;) {
+        array.push(parseValue(childPath(path, array.length)));
+        skipWhitespace();
+        if (text[index] === ',') { index++; continue; }
+        if (text[index] === ']') { index++; return array; }
+        fail('Expected "," or "]"');
+      }
+    }
+
+    if (char === '"') return parseString();
+
+    JSON_LITERAL.lastIndex = index;
+    const literal = JSON_LITERAL.exec(text);
+    if (!literal) return fail('Unexpected token');
+    index += literal[0].length;
+    return JSON.parse(literal[0]);
+  };
+
+  const parseString = (): string => {
+    JSON_STRING.lastIndex = index;
+    const match = JSON_STRING.exec(text);
+    if (!match) return fail('Unterminated string');
+    try {
+      const value = JSON.parse(match[0]);
+      index += match[0].length;
+      return value;
+    } catch {
+      return fail('Invalid escape sequence in string');
+    }
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (index < text.length) fail('Unexpected content after the end of the document');
+
+  return { value, lines };
+}
+
+/**
+ * Record the line of every value below a YAML node, keyed like its toJS() counterpart
+ */
+function recordYamlLines(node: unknown, path: string, lineCounter: LineCounter, lines: Map<string, number>): void {
+  if (isMap(node)) {
+    node.items.forEach(pair => {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      const valuePath = childPath(path, key);
+      const start = isNode(pair.key) ? pair.key.range?.[0] : undefined;
+      if (start !== undefined) lines.set(valuePath, lineCounter.linePos(start).line);
+      recordYamlLines(pair.value, valuePath, lineCounter, lines);
+    });
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const itemPath = childPath(path, index);
+      const start = isNode(item) ? item.range?.[0] : undefined;
+      if (start !== undefined) lines.set(itemPath, lineCounter.linePos(start).line);
+      recordYamlLines(item, itemPath, lineCounter, lines);
+    });
+  }
+}
+
+/**
+ * Parse YAML, recording the line of every value
+ */
+export function parseYamlWithLines(text: string, file: string): ParsedSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, uniqueKeys: true });
+
+  const [error] = document.errors;
+  if (error) {
+    const line = error.linePos?.[0].line ?? 1;
+    // First line of the message, without the position syntaxError reports itself
+    const message = error.message.split('\n')[0]!.replace(/ at line \d+, column \d+:?$/, '');
+    syntaxError(file, line, message, text.split(/\r?\n/)[line - 1]?.trim());
+  }
+
+  const lines = new Map<string, number>();
+  const start = isNode(document.contents) ? document.contents.range?.[0] : undefined;
+  lines.set('', start !== undefined ? lineCounter.linePos(start).line : 1);
+  recordYamlLines(document.contents, '', lineCounter, lines);
+
+  return { value: document.toJS(), lines };
+}
@@ -0,0 +1,166 @@
+/**
+ * Plain-text and HTML previews of interactive messages.
+ *
+ * Both renderers show the header, body, footer and a numbered button list
+ * with what each button does (URL, phone number, copy text, list rows, ...).
+ * Buttons are classified with getButtonType, exactly as when sending.
+ */
+
+import { Button, ButtonType, HeaderMedia, InteractiveMessageConfig } from '../types/index.js';
+import { getButtonType } from './buttons.js';
+import { isValidUrl } from './rules.js';
+
+/**
+ * What a button does, shown next to its title
+ */
+const BUTTON_DETAILS: { [K in ButtonType]?: (button: Extract<Button, { type: K }>) => string | undefined } = {
+  cta_url: button => button.url,
+  open_webview: button => button.url,
+  cta_call: button => button.phoneNumber,
+  cta_copy: button => button.copyText,
+  cta_catalog: button => button.catalogLink,
+  cta_reminder: button => `${button.reminderText} (${button.dateTime})`,
+  send_location: button => button.address ??
+    (button.latitude !== undefined && button.longitude !== undefined ? `${button.latitude}, ${button.longitude}` : undefined),
+  review_and_pay: button => `${button.amount} ${button.currency}`,
+  payment_info: button => `${button.amount} ${button.currency} (${button.status})`
+};
+
+/**
+ * Detail of a button (URL, phone number, copy text, amount, ...), if it has one
+ */
+export function getButtonDetail(button: Button): string | undefined {
+  const type = getButtonType(button);
+  const detail = BUTTON_DETAILS[type] as ((button: Button) => string | undefined) | undefined;
+  return detail?.(button);
+}
+
+/**
+ * Short label of a media header ("[image: caption]")
+ */
+function describeHeaderMedia(headerMedia: HeaderMedia): string {
+  if (headerMedia.mediaType === 'location') {
+    const place = headerMedia.name ?? headerMedia.address ?? `${headerMedia.latitude}, ${headerMedia.longitude}`;
+    return `[location: ${place}]`;
+  }
+
+  const label = headerMedia.mediaType === 'document' ? headerMedia.fileName ?? headerMedia.mediaCaption : headerMedia.mediaCaption;
+  return label ? `[${headerMedia.mediaType}: ${label}]` : `[${headerMedia.mediaType}]`;
+}
+
+/**
+ * Render an interactive message as plain text (WhatsApp formatting marks for header and footer)
+ *
+ *   *Header*
+ *   Body
+ *
+ *   1. Yes
+ *   2. Website: https://example.com
+ *   3. Choose a plan
+ *      - Basic: 5 GB
+ *
+ *   _Footer_
+ */
+export function renderInteractiveAsText(config: InteractiveMessageConfig, buttons: Button[]): string {
+  const lines: string[] = [];
+
+  if (config.headerMedia) lines.push(describeHeaderMedia(config.headerMedia));
+  if (config.headerText) lines.push(`*${config.headerText}*`);
+  lines.push(config.body);
+
+  if (buttons.length > 0) {
+    lines.push('');
+    buttons.forEach((button, index) => {
+      const detail = getButtonDetail(button);
+      lines.push(detail !== undefined ? `${index + 1}. ${button.title}: ${detail}` : `${index + 1}. ${button.title}`);
+
+      if (getButtonType(button) === 'single_select') {
+        (button as Extract<Button, { type: 'single_select' }>).options.forEach(row => {
+          lines.push(row.description ? `   - ${row.title}: ${row.description}` : `   - ${row.title}`);
+        });
+      }
+    });
+  }
+
+  if (config.footer) lines.push('', `_${config.footer}_`);
+  return lines.join('\n');
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escape text and apply WhatsApp formatting (*bold*, _italic_, ~strike~, ```mono```, line breaks)
+ */
+function formatText(text: string): string {
+  return escapeHtml(text)
+    .replace(/```([\s\S]+?)```/g, '<code>$1</code>')
+    .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1<em>$2</em>')
+    .replace(/~([^~\n]+)~/g, '<s>$1</s>')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Render the HTML of one button
+ */
+function renderButtonHtml(button: Button): string {
+  const type = getButtonType(button);
+  const title = escapeHtml(button.title ?? '');
+  const detail = getButtonDetail(button);
+  let content: string;
+
+  if ((type === 'cta_url' || type === 'open_webview' || type === 'cta_catalog') && detail && isValidUrl(detail)) {
+    content = `<a href="${escapeHtml(detail)}" rel="noopener noreferrer" target="_blank">${title}</a>`;
+  } else if (type === 'cta_call' && detail) {
+    content = `<a href="tel:${escapeHtml(detail)}">${title}</a> <span class="wa-detail">${escapeHtml(detail)}</span>`;
+  } else if (type === 'cta_copy' && detail) {
+    content = `${title} <code class="wa-detail">${escapeHtml(detail)}</code>`;
+  } else {
+    content = detail !== undefined ? `${title} <span class="wa-detail">${escapeHtml(detail)}</span>` : title;
+  }
+
+  if (type === 'single_select') {
+    const rows = (button as Extract<Button, { type: 'single_select' }>).options.map(row =>
+      `<li class="wa-row" data-row-id="${escapeHtml(row.id)}">${escapeHtml(row.title)}` +
+      `${row.description ? ` <small>${escapeHtml(row.description)}</small>` : ''}</li>`);
+    content += `<ul class="wa-rows">${rows.join('')}</ul>`;
+  }
+
+  return `<li class="wa-button wa-button-${type}" data-button-id="${escapeHtml(button.id ?? '')}">${content}</li>`;
+}
+
+/**
+ * Render an interactive message as an HTML preview.
+ * Elements carry wa-* class names for styling; all text is escaped and
+ * only http(s) URLs become links.
+ */
+export function renderInteractiveAsHtml(config: InteractiveMessageConfig, buttons: Button[]): string {
+  const parts: string[] = ['<div class="wa-interactive">'];
+  const { headerMedia } = config;
+
+  if (headerMedia?.mediaType === 'image' && typeof (headerMedia.media ?? headerMedia.mediaUrl) === 'string' &&
+      isValidUrl((headerMedia.media ?? headerMedia.mediaUrl) as string)) {
+    const src = escapeHtml((headerMedia.media ?? headerMedia.mediaUrl) as string);
+    parts.push(`<div class="wa-header wa-header-image"><img src="${src}" alt="${escapeHtml(headerMedia.mediaCaption ?? '')}"></div>`);
+  } else if (headerMedia) {
+    parts.push(`<div class="wa-header wa-header-${headerMedia.mediaType}">${escapeHtml(describeHeaderMedia(headerMedia))}</div>`);
+  }
+  if (config.headerText) parts.push(`<div class="wa-header">${formatText(config.headerText)}</div>`);
+
+  parts.push(`<div class="wa-body">${formatText(config.body ?? '')}</div>`);
+  if (config.footer) parts.push(`<div class="wa-footer">${formatText(config.footer)}</div>`);
+  if (buttons.length > 0) parts.push(`<ol class="wa-buttons">${buttons.map(renderButtonHtml).join('')}</ol>`);
+
+  parts.push('</div>');
+  return parts.join('');
+}
@@ -0,0 +1,251 @@
+/**
+ * Parsing of incoming button replies into typed response events.
+ *
+ * Handles every reply shape WhatsApp clients emit when a button is tapped:
+ *  1. interactiveResponseMessage.nativeFlowResponseMessage (native flow buttons)
+ *  2. buttonsResponseMessage (legacy buttons)
+ *  3. listResponseMessage (legacy lists)
+ *  4. templateButtonReplyMessage (template buttons)
+ *  5. votes on / numbered replies to poll and text menus sent as a fallback
+ */
+
+import {
+  Button,
+  ButtonParams,
+  ButtonResponse,
+  ButtonResponseBase,
+  ButtonResponseSource,
+  ButtonType,
+  MessageKey,
+  PlainButtonResponse,
+  SingleSelectResponse
+} from '../types/index.js';
+import { getButtonType, isButtonOfType } from './buttons.js';
+import { matchFallbackReply } from './fallback.js';
+import { isButtonType, parseNativeFlowButton } from './serializers.js';
+
+/**
+ * Wrappers that may enclose the actual message content
+ */
+const MESSAGE_WRAPPERS = [
+  'ephemeralMessage',
+  'viewOnceMessage',
+  'viewOnceMessageV2',
+  'viewOnceMessageV2Extension',
+  'documentWithCaptionMessage',
+  'editedMessage'
+];
+
+/**
+ * Strip WAMessage / wrapper layers until the actual content is reached
+ */
+export function unwrapMessageContent(message: any): any {
+  let content = message?.message ?? message;
+
+  for (let depth = 0; content && depth < 5; depth++) {
+    const wrapper = MESSAGE_WRAPPERS.find(key => content[key]?.message);
+    if (!wrapper) break;
+    content = content[wrapper].message;
+  }
+
+  return content;
+}
+
+/**
+ * Parse a JSON string without throwing
+ */
+export function safeJsonParse(json: unknown): ButtonParams {
+  if (typeof json !== 'string') return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Build the key of the message the reply quotes
+ */
+export function getQuotedKey(contextInfo: any, message: any): MessageKey | undefined {
+  if (!contextInfo?.stanzaId) return undefined;
+
+  const key: MessageKey = { id: contextInfo.stanzaId };
+  const remoteJid = contextInfo.remoteJid || message?.key?.remoteJid;
+  if (remoteJid) key.remoteJid = remoteJid;
+  if (contextInfo.participant) key.participant = contextInfo.participant;
+
+  return key;
+}
+
+/**
+ * Decode the native flow buttons of the quoted (original) message,
+ * including the buttons on every card of a carousel
+ */
+function getQuotedButtons(contextInfo: any): Button[] {
+  const interactiveMessage = unwrapMessageContent(contextInfo?.quotedMessage)?.interactiveMessage;
+  const nativeButtons: any[] = [
+    ...(interactiveMessage?.nativeFlowMessage?.buttons ?? []),
+    ...(interactiveMessage?.carouselMessage?.cards ?? []).flatMap((card: any) => card?.nativeFlowMessage?.buttons ?? [])
+  ];
+
+  const buttons: Button[] = [];
+  nativeButtons.forEach((nativeButton: any) => {
+    try {
+      buttons.push(parseNativeFlowButton(nativeButton));
+    } catch {
+      // Foreign or malformed buttons simply carry no metadata
+    }
+  });
+  return buttons;
+}
+
+/**
+ * Fields shared by responses of every button type
+ */
+type ResponseFields = Omit<ButtonResponseBase, 'type' | 'button'>;
+
+/**
+ * Find the original button matching the selected id (or list row id)
+ */
+function findOriginalButton(buttons: Button[], selectedId: string): Button | undefined {
+  return buttons.find(button => button.id === selectedId) ||
+    buttons.find(button => isButtonOfType(button, 'single_select') &&
+      button.options.some(option => option.id === selectedId));
+}
+
+/**
+ * Response to a button other than single_select, carrying the original button when its type matches
+ */
+function createPlainResponse<K extends Exclude<ButtonType, 'single_select'>>(
+  type: K,
+  fields: ResponseFields,
+  button: Button | undefined
+): PlainButtonResponse<K> {
+  const response: ButtonResponseBase<K> = { type, ...fields };
+  if (isButtonOfType(button, type)) response.button = button;
+  return response;
+}
+
+/**
+ * Response of a button type; list replies also carry the selected row
+ */
+function createResponse(type: ButtonType, fields: ResponseFields, button: Button | undefined): ButtonResponse {
+  if (type !== 'single_select') return createPlainResponse(type, fields, button);
+
+  const response: SingleSelectResponse = { type, ...fields, rowId: fields.selectedId };
+  if (isButtonOfType(button, 'single_select')) {
+    response.button = button;
+    const row = button.options.find(option => option.id === fields.selectedId);
+    if (row) response.row = row;
+  }
+  return response;
+}
+
+/**
+ * Assemble the typed response event
+ */
+function buildResponse(
+  source: ButtonResponseSource,
+  selectedId: string,
+  displayText: string | undefined,
+  params: ButtonParams,
+  contextInfo: any,
+  message: any,
+  name?: string
+): ButtonResponse {
+  const button = findOriginalButton(getQuotedButtons(contextInfo), selectedId);
+  const type: ButtonType = isButtonType(name) ? name : button ? getButtonType(button) : 'quick_reply';
+
+  const fields: ResponseFields = { source, selectedId, params };
+  if (displayText) fields.displayText = displayText;
+
+  const quotedKey = getQuotedKey(contextInfo, message);
+  if (quotedKey) fields.quotedKey = quotedKey;
+
+  return createResponse(type, fields, button);
+}
+
+/**
+ * Parse an incoming message into a typed button response.
+ * Accepts a full WAMessage ({ key, message }) or bare message content.
+ *
+ * @param message Incoming message
+ * @returns Response event, or null when the message is not a button reply
+ */
+export function parseButtonResponse(message: any): ButtonResponse | null {
+  const content = unwrapMessageContent(message);
+  if (!content || typeof content !== 'object') return null;
+
+  // 1. Native flow reply
+  const interactive = content.interactiveResponseMessage;
+  if (interactive?.nativeFlowResponseMessage) {
+    const nativeFlow = interactive.nativeFlowResponseMessage;
+    const params = safeJsonParse(nativeFlow.paramsJson);
+    const selectedId = params['id'] ?? params['selected_row_id'] ?? '';
+
+    return buildResponse(
+      'native_flow',
+      String(selectedId),
+      interactive.body?.text,
+      params,
+      interactive.contextInfo,
+      message,
+      nativeFlow.name
+    );
+  }
+
+  // 2. Legacy buttons reply
+  const buttonsResponse = content.buttonsResponseMessage;
+  if (buttonsResponse?.selectedButtonId) {
+    return buildResponse(
+      'buttons',
+      buttonsResponse.selectedButtonId,
+      buttonsResponse.selectedDisplayText,
+      { id: buttonsResponse.selectedButtonId },
+      buttonsResponse.contextInfo,
+      message
+    );
+  }
+
+  // 3. Legacy list reply
+  const listResponse = content.listResponseMessage;
+  if (listResponse?.singleSelectReply?.selectedRowId) {
+    return buildResponse(
+      'list',
+      listResponse.singleSelectReply.selectedRowId,
+      listResponse.title,
+      { id: listResponse.singleSelectReply.selectedRowId },
+      listResponse.contextInfo,
+      message,
+      'single_select'
+    );
+  }
+
+  // 4. Template button reply
+  const templateReply = content.templateButtonReplyMessage;
+  if (templateReply?.selectedId) {
+    return buildResponse(
+      'template',
+      templateReply.selectedId,
+      templateReply.selectedDisplayText,
+      { id: templateReply.selectedId, index: templateReply.selectedIndex },
+      templateReply.contextInfo,
+      message
+    );
+  }
+
+  // 5. Fallback poll vote / text menu reply
+  const fallback = matchFallbackReply(message, content);
+  if (fallback) {
+    const { option } = fallback;
+    return createResponse(getButtonType(option.button), {
+      source: fallback.source,
+      selectedId: option.selectedId,
+      displayText: option.title,
+      params: { id: option.selectedId }
+    }, option.button);
+  }
+
+  return null;
+}
@@ -0,0 +1,380 @@
+/**
+ * Declarative validation rules for interactive messages.
+ *
+ * Field rules describe WhatsApp's platform limits (character counts,
+ * formats, required fields) per message field and per button type;
+ * count rules describe how many buttons of each kind a message may carry.
+ * validateInteractiveMessage evaluates these rules, so adding a limit
+ * means adding a rule here rather than another branch in the validator.
+ */
+
+import {
+  ButtonType,
+  CountRule,
+  FieldRule,
+  ValidationError,
+  ValidationWarning
+} from '../types/index.js';
+
+/**
+ * Platform character limits for message fields
+ */
+export const MESSAGE_LIMITS = {
+  body: 1024,
+  footer: 60,
+  headerText: 60,
+  buttonId: 64,
+  buttonTitle: 20,
+  maxButtons: 10
+};
+
+/**
+ * Rules for the message configuration fields
+ */
+export const CONFIG_RULES: FieldRule[] = [
+  {
+    field: 'body',
+    type: 'string',
+    required: true,
+    minLength: 1,
+    maxLength: MESSAGE_LIMITS.body,
+    message: 'Body text is required and must be a string'
+  },
+  { field: 'footer', type: 'string', maxLength: MESSAGE_LIMITS.footer },
+  { field: 'headerType', type: 'number' },
+  { field: 'headerText', type: 'string', maxLength: MESSAGE_LIMITS.headerText }
+];
+
+/**
+ * Rules shared by every button
+ */
+export const BASE_BUTTON_RULES: FieldRule[] = [
+  {
+    field: 'id',
+    type: 'string',
+    required: true,
+    minLength: 1,
+    maxLength: MESSAGE_LIMITS.buttonId,
+    message: `Button ID must be a non-empty string (max ${MESSAGE_LIMITS.buttonId} chars)`
+  },
+  {
+    field: 'title',
+    type: 'string',
+    required: true,
+    minLength: 1,
+    maxLength: MESSAGE_LIMITS.buttonTitle,
+    message: `Button title is required and must be a string (max ${MESSAGE_LIMITS.buttonTitle} chars)`
+  },
+  { field: 'subtitle', type: 'string' },
+  { field: 'disabled', type: 'boolean' }
+];
+
+/**
+ * Type-specific button rules
+ */
+export const BUTTON_RULES: { [K in ButtonType]: FieldRule[] } = {
+  quick_reply: [
+    { field: 'body', type: 'string' },
+    { field: 'response', type: 'string' }
+  ],
+  cta_url: [
+    { field: 'url', type: 'string', required: true, format: 'url' }
+  ],
+  cta_copy: [
+    { field: 'copyText', type: 'string', required: true, minLength: 1 }
+  ],
+  cta_call: [
+    { field: 'phoneNumber', type: 'string', required: true, format: 'phone' }
+  ],
+  cta_catalog: [
+    { field: 'catalogLink', type: 'string', required: true, minLength: 1 }
+  ],
+  cta_reminder: [
+    { field: 'reminderText', type: 'string', required: true, minLength: 1 },
+    { field: 'dateTime', type: 'string', required: true, format: 'date-time' }
+  ],
+  cta_cancel_reminder: [
+    { field: 'reminderId', type: 'string', required: true, minLength: 1 }
+  ],
+  address_message: [
+    { field: 'addressId', type: 'string', required: true, minLength: 1 }
+  ],
+  send_location: [
+    { field: 'latitude', type: 'number', minimum: -90, maximum: 90 },
+    { field: 'longitude', type: 'number', minimum: -180, maximum: 180 },
+    { field: 'address', type: 'string' }
+  ],
+  open_webview: [
+    { field: 'url', type: 'string', required: true, format: 'url' },
+    { field: 'webviewHeight', type: 'string', enum: ['compact', 'tall', 'full'] }
+  ],
+  mpm: [
+    { field: 'merchantId', type: 'string', required: true, minLength: 1 },
+    { field: 'catalogId', type: 'string', minLength: 1 },
+    { field: 'sections', type: 'array' }
+  ],
+  wa_payment_transaction_details: [
+    { field: 'transactionId', type: 'string', required: true, minLength: 1 }
+  ],
+  automated_greeting_message_view_catalog: [
+    { field: 'catalogId', type: 'string', required: true, minLength: 1 }
+  ],
+  galaxy_message: [
+    { field: 'messageType', type: 'string', required: true, minLength: 1 },
+    { field: 'payload', type: 'any', required: true }
+  ],
+  single_select: [
+    { field: 'options', type: 'array', required: true }
+  ],
+  review_and_pay: [
+    { field: 'orderId', type: 'string', required: true, minLength: 1 },
+    { field: 'amount', type: 'number', required: true, minimum: 0 },
+    { field: 'currency', type: 'string', required: true, format: 'currency' },
+    { field: 'order', type: 'object' }
+  ],
+  payment_info: [
+    { field: 'paymentId', type: 'string', required: true, minLength: 1 },
+    { field: 'amount', type: 'number', required: true, minimum: 0 },
+    { field: 'currency', type: 'string', required: true, format: 'currency' },
+    { field: 'status', type: 'string', required: true, minLength: 1 }
+  ],
+  flow: [
+    { field: 'flowId', type: 'string', required: true, minLength: 1 },
+    { field: 'flowToken', type: 'string', required: true, minLength: 1 },
+    { field: 'flowAction', type: 'string', enum: ['navigate', 'data_exchange'] },
+    { field: 'screen', type: 'string', minLength: 1 },
+    { field: 'data', type: 'object' },
+    { field: 'mode', type: 'string', enum: ['draft', 'published'] },
+    { field: 'flowMessageVersion', type: 'string', minLength: 1 }
+  ]
+};
+
+/**
+ * Button types that act as calls to action (as opposed to replies)
+ */
+const CTA_TYPES: ButtonType[] = [
+  'cta_url',
+  'cta_copy',
+  'cta_call',
+  'cta_catalog',
+  'cta_reminder',
+  'cta_cancel_reminder',
+  'open_webview'
+];
+
+/**
+ * Limits on the number of buttons per type mix
+ */
+export const COUNT_RULES: CountRule[] = [
+  {
+    max: MESSAGE_LIMITS.maxButtons,
+    severity: 'error',
+    message: `A message supports at most ${MESSAGE_LIMITS.maxButtons} buttons`
+  },
+  {
+    types: ['quick_reply'],
+    max: 3,
+    severity: 'warning',
+    message: 'More than 3 quick replies are collapsed into a "See all options" list',
+    suggestion: 'Use a single_select button or list message for longer menus'
+  },
+  {
+    types: ['cta_url'],
+    max: 2,
+    severity: 'error',
+    message: 'A message supports at most 2 URL buttons'
+  },
+  {
+    types: ['cta_call'],
+    max: 1,
+    severity: 'error',
+    message: 'A message supports at most 1 call button'
+  },
+  {
+    types: ['single_select'],
+    max: 1,
+    severity: 'error',
+    message: 'A message supports at most 1 single select button'
+  },
+  {
+    types: ['review_and_pay', 'payment_info'],
+    max: 1,
+    severity: 'error',
+    message: 'A message supports at most 1 payment button'
+  },
+  {
+    mixedWith: ['flow'],
+    max: 1,
+    severity: 'error',
+    message: 'A flow button must be the only button of its message'
+  },
+  {
+    types: ['quick_reply'],
+    mixedWith: CTA_TYPES,
+    max: 0,
+    severity: 'warning',
+    message: 'Quick replies mixed with call-to-action buttons may render as a list on some clients',
+    suggestion: 'Send quick replies and call-to-action buttons in separate messages'
+  }
+];
+
+/**
+ * ISO 4217 active currency codes
+ */
+export const ISO_4217_CURRENCIES = new Set([
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN',
+  'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF',
+  'CLP', 'CNY', 'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB',
+  'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD', 'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG',
+  'HUF', 'IDR', 'ILS', 'INR', 'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF',
+  'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL', 'LYD', 'MAD', 'MDL', 'MGA',
+  'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO',
+  'NOK', 'NPR', 'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR', 'RON', 'RSD',
+  'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN',
+  'SVC', 'SYP', 'SZL', 'THB', 'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX',
+  'USD', 'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XOF', 'XPF', 'YER', 'ZAR', 'ZMW',
+  'ZWL'
+]);
+
+/**
+ * ISO 8601 date-time (date, time and optional offset)
+ */
+export const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * E.164 phone number
+ */
+export const E164_PHONE = /^\+?[1-9]\d{1,14}$/;
+
+/**
+ * Check for an absolute http(s) URL
+ */
+export function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check for an ISO 8601 date-time that resolves to a real date
+ */
+export function isIsoDateTime(value: string): boolean {
+  return ISO_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Check for an ISO 4217 currency code
+ */
+export function isCurrencyCode(value: string): boolean {
+  return ISO_4217_CURRENCIES.has(value);
+}
+
+/**
+ * Human readable description of what a rule expects
+ */
+export function describeRule(rule: FieldRule): string {
+  if (rule.enum) return rule.enum.map(value => `'${value}'`).join(' | ');
+  if (rule.format === 'url') return 'string (http(s) URL)';
+  if (rule.format === 'date-time') return 'string (ISO 8601 date-time)';
+  if (rule.format === 'currency') return 'string (ISO 4217 currency code)';
+  if (rule.format === 'phone') return 'string (E.164 format)';
+  if (rule.type === 'string' && rule.maxLength !== undefined) {
+    return `string (${rule.minLength ?? 0}-${rule.maxLength} chars)`;
+  }
+  if (rule.type === 'number' && (rule.minimum !== undefined || rule.maximum !== undefined)) {
+    return `number (${rule.minimum ?? '-∞'} to ${rule.maximum ?? '∞'})`;
+  }
+  return rule.type;
+}
+
+/**
+ * Evaluate a field rule against a present value.
+ * A rule's own message replaces the generic type / empty-value messages;
+ * length, range and format failures keep their specific wording.
+ *
+ * @param rule Rule to evaluate
+ * @param value Field value (undefined values are handled by the caller)
+ * @param path Path reported in errors / warnings
+ */
+export function checkFieldRule(
+  rule: FieldRule,
+  value: any,
+  path: string
+): { errors: ValidationError[]; warnings: ValidationWarning[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const fail = (message: string) => errors.push({
+    path,
+    message,
+    expected: describeRule(rule),
+    value
+  });
+
+  if (rule.type === 'array' ? !Array.isArray(value) :
+      rule.type !== 'any' && typeof value !== rule.type) {
+    fail(rule.message || `${rule.field} must be ${rule.type === 'array' ? 'an array' : `a ${rule.type}`}`);
+    return { errors, warnings };
+  }
+
+  if (typeof value === 'string') {
+    if (rule.minLength !== undefined && value.length < rule.minLength) {
+      fail(rule.message || `${rule.field} must not be empty`);
+    } else if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      fail(`${rule.field} exceeds ${rule.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if ((rule.minimum !== undefined && value < rule.minimum) ||
+        (rule.maximum !== undefined && value > rule.maximum)) {
+      fail(`${rule.field} is out of range`);
+    }
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    fail(`${rule.field} must be one of ${rule.enum.join(', ')}`);
+  }
+
+  switch (rule.format) {
+    case 'url':
+      if (!isValidUrl(value)) {
+        fail(`${rule.field} must be an absolute http(s) URL`);
+      } else if (value.startsWith('http:')) {
+        warnings.push({
+          path,
+          message: 'URL uses an insecure http scheme',
+          suggestion: 'Use an https URL'
+        });
+      }
+      break;
+
+    case 'date-time':
+      if (!isIsoDateTime(value)) {
+        fail(`${rule.field} must be an ISO 8601 date-time`);
+      } else if (Date.parse(value) < Date.now()) {
+        warnings.push({
+          path,
+          message: 'Date-time is in the past',
+          suggestion: 'Use a future date-time for reminders'
+        });
+      }
+      break;
+
+    case 'currency':
+      if (!isCurrencyCode(value)) {
+        fail(`${rule.field} must be an ISO 4217 currency code`);
+      }
+      break;
+
+    case 'phone':
+      if (!E164_PHONE.test(value)) {
+        fail(`${rule.field} must be a valid phone number`);
+      }
+      break;
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,361 @@
+/**
+ * JSON Schema export and payload validation.
+ *
+ * The schemas are generated from the same declarative rules that
+ * validateInteractiveMessage evaluates (see rules.ts), so limits only
+ * ever need to change in one place. Payloads are checked by a pluggable
+ * SchemaValidator: a built-in validator covering the keywords these
+ * schemas use is the default, and any full JSON Schema implementation
+ * (e.g. Ajv) can be plugged in with setSchemaValidator.
+ */
+
+import {
+  Button,
+  ButtonType,
+  FieldRule,
+  JsonSchema,
+  JsonSchemaName,
+  SchemaValidator,
+  ValidationError,
+  ValidationResult
+} from '../types/index.js';
+import { LIST_LIMITS } from './list.js';
+import {
+  BASE_BUTTON_RULES,
+  BUTTON_RULES,
+  CONFIG_RULES,
+  E164_PHONE,
+  ISO_4217_CURRENCIES,
+  MESSAGE_LIMITS,
+  isIsoDateTime,
+  isValidUrl
+} from './rules.js';
+
+/**
+ * JSON Schema dialect of the generated documents
+ */
+export const JSON_SCHEMA_DIALECT = 'http://json-schema.org/draft-07/schema#';
+
+/**
+ * Convert a field rule into a JSON Schema property
+ */
+function ruleToSchema(rule: FieldRule): JsonSchema {
+  const schema: JsonSchema = rule.type === 'any' ? {} : { type: rule.type };
+
+  if (rule.message) schema['description'] = rule.message;
+  if (rule.minLength !== undefined) schema['minLength'] = rule.minLength;
+  if (rule.maxLength !== undefined) schema['maxLength'] = rule.maxLength;
+  if (rule.minimum !== undefined) schema['minimum'] = rule.minimum;
+  if (rule.maximum !== undefined) schema['maximum'] = rule.maximum;
+  if (rule.enum) schema['enum'] = [...rule.enum];
+
+  switch (rule.format) {
+    case 'url':
+      schema['format'] = 'uri';
+      schema['pattern'] = '^https?://';
+      break;
+    case 'date-time':
+      schema['format'] = 'date-time';
+      break;
+    case 'currency':
+      schema['enum'] = Array.from(ISO_4217_CURRENCIES);
+      break;
+    case 'phone':
+      schema['pattern'] = E164_PHONE.source;
+      break;
+  }
+
+  return schema;
+}
+
+/**
+ * Build an object schema from a list of field rules
+ */
+function rulesToObjectSchema(rules: FieldRule[]): JsonSchema {
+  const properties: JsonSchema = {};
+  rules.forEach(rule => { properties[rule.field] = ruleToSchema(rule); });
+
+  return {
+    type: 'object',
+    properties,
+    required: rules.filter(rule => rule.required).map(rule => rule.field)
+  };
+}
+
+/**
+ * Schema of a single_select option (a list row)
+ */
+function listRowSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'string', minLength: 1, maxLength: LIST_LIMITS.rowIdLength },
+      title: { type: 'string', minLength: 1, maxLength: LIST_LIMITS.rowTitleLength },
+      description: { type: 'string', maxLength: LIST_LIMITS.rowDescriptionLength }
+    },
+    required: ['id', 'title']
+  };
+}
+
+/**
+ * Schema of one button variant
+ */
+function buttonVariantSchema(type: ButtonType): JsonSchema {
+  const objectSchema = rulesToObjectSchema([...BASE_BUTTON_RULES, ...BUTTON_RULES[type]]);
+  const schema: JsonSchema = {
+    title: `${type} button`,
+    type: 'object',
+    properties: { type: { const: type }, ...objectSchema['properties'] },
+    required: ['type', ...objectSchema['required']]
+  };
+
+  if (type === 'single_select') {
+    schema['properties']['options'] = {
+      type: 'array',
+      minItems: 1,
+      maxItems: LIST_LIMITS.maxRows,
+      items: listRowSchema()
+    };
+  }
+
+  return schema;
+}
+
+/**
+ * Schema definitions shared by every generated document
+ */
+function buildDefinitions(): JsonSchema {
+  const headerAttachment = {
+    type: 'object',
+    properties: {
+      mediaType: { enum: ['image', 'video', 'document'] },
+      media: { type: 'string', minLength: 1, description: 'URL or file path' },
+      mediaUrl: { type: 'string', minLength: 1 },
+      mediaCaption: { type: 'string' },
+      mimetype: { type: 'string' },
+      fileName: { type: 'string' },
+      jpegThumbnail: { type: 'string' }
+    },
+    required: ['mediaType']
+  };
+
+  const headerLocation = {
+    type: 'object',
+    properties: {
+      mediaType: { const: 'location' },
+      latitude: { type: 'number', minimum: -90, maximum: 90 },
+      longitude: { type: 'number', minimum: -180, maximum: 180 },
+      name: { type: 'string' },
+      address: { type: 'string' }
+    },
+    required: ['mediaType', 'latitude', 'longitude']
+  };
+
+  const config: JsonSchema = { title: 'InteractiveMessageConfig', ...rulesToObjectSchema(CONFIG_RULES) };
+  config['properties']['headerMedia'] = { oneOf: [headerAttachment, headerLocation] };
+
+  return {
+    Button: {
+      title: 'Button',
+      oneOf: (Object.keys(BUTTON_RULES) as ButtonType[]).map(buttonVariantSchema)
+    },
+    InteractiveMessageConfig: config,
+    SendInteractiveMessageParams: {
+      title: 'SendInteractiveMessageParams',
+      description: 'Send parameters without the socket, which cannot be serialized',
+      type: 'object',
+      properties: {
+        jid: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+        config: { $ref: '#/definitions/InteractiveMessageConfig' },
+        buttons: {
+          type: 'array',
+          minItems: 1,
+          maxItems: MESSAGE_LIMITS.maxButtons,
+          items: { $ref: '#/definitions/Button' }
+        },
+        format: { enum: ['legacy', 'current', 'custom'] }
+      },
+      required: ['jid', 'config', 'buttons']
+    }
+  };
+}
+
+/**
+ * Get the JSON Schema document for one of the public payload types
+ *
+ * @param name Type to describe (defaults to Button)
+ */
+export function getJsonSchema(name: JsonSchemaName = 'Button'): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $ref: `#/definitions/${name}`,
+    definitions: buildDefinitions()
+  };
+}
+
+/**
+ * Schema document for a Button[] payload
+ */
+function getButtonsSchema(): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    type: 'array',
+    minItems: 1,
+    maxItems: MESSAGE_LIMITS.maxButtons,
+    items: { $ref: '#/definitions/Button' },
+    definitions: buildDefinitions()
+  };
+}
+
+/**
+ * Check a value against a JSON type name
+ */
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema node (subset of draft-07 used by the generated schemas)
+ */
+function validateNode(schema: JsonSchema, value: any, path: string, root: JsonSchema): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const fail = (message: string, expected: any) => errors.push({ path, message, expected, value });
+
+  if (schema['$ref']) {
+    const name = String(schema['$ref']).replace('#/definitions/', '');
+    return validateNode(root['definitions'][name], value, path, root);
+  }
+
+  if (schema['oneOf']) {
+    const branches: JsonSchema[] = schema['oneOf'];
+    const discriminated = branches.find(branch =>
+      branch['properties']?.type?.const !== undefined && branch['properties'].type.const === value?.type);
+    if (discriminated) return validateNode(discriminated, value, path, root);
+
+    const matching = branches.filter(branch => validateNode(branch, value, path, root).length === 0);
+    if (matching.length !== 1) {
+      const types = branches.map(branch => branch['properties']?.type?.const).filter(Boolean);
+      fail('Value does not match any allowed variant', types.length > 0 ? types : schema['title']);
+    }
+    return errors;
+  }
+
+  if (schema['const'] !== undefined && value !== schema['const']) {
+    fail(`Must equal ${JSON.stringify(schema['const'])}`, schema['const']);
+    return errors;
+  }
+
+  if (schema['type'] && !matchesType(schema['type'], value)) {
+    fail(`Must be of type ${schema['type']}`, schema['type']);
+    return errors;
+  }
+
+  if (schema['enum'] && !schema['enum'].includes(value)) {
+    fail('Must be one of the allowed values', schema['enum']);
+  }
+
+  if (typeof value === 'string') {
+    if (schema['minLength'] !== undefined && value.length < schema['minLength']) {
+      fail(`Must be at least ${schema['minLength']} characters`, `minLength ${schema['minLength']}`);
+    }
+    if (schema['maxLength'] !== undefined && value.length > schema['maxLength']) {
+      fail(`Must be at most ${schema['maxLength']} characters`, `maxLength ${schema['maxLength']}`);
+    }
+    if (schema['pattern'] && !new RegExp(schema['pattern']).test(value)) {
+      fail('Does not match the required pattern', schema['pattern']);
+    }
+    if (schema['format'] === 'uri' && !isValidUrl(value)) {
+      fail('Must be an absolute URL', 'uri');
+    }
+    if (schema['format'] === 'date-time' && !isIsoDateTime(value)) {
+      fail('Must be an ISO 8601 date-time', 'date-time');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema['minimum'] !== undefined && value < schema['minimum']) {
+      fail(`Must be at least ${schema['minimum']}`, `minimum ${schema['minimum']}`);
+    }
+    if (schema['maximum'] !== undefined && value > schema['maximum']) {
+      fail(`Must be at most ${schema['maximum']}`, `maximum ${schema['maximum']}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema['minItems'] !== undefined && value.length < schema['minItems']) {
+      fail(`Must contain at least ${schema['minItems']} items`, `minItems ${schema['minItems']}`);
+    }
+    if (schema['maxItems'] !== undefined && value.length > schema['maxItems']) {
+      fail(`Must contain at most ${schema['maxItems']} items`, `maxItems ${schema['maxItems']}`);
+    }
+    if (schema['items']) {
+      value.forEach((item, index) => {
+        errors.push(...validateNode(schema['items'], item, `${path}[${index}]`, root));
+      });
+    }
+  }
+
+  if (matchesType('object', value)) {
+    (schema['required'] || []).forEach((field: string) => {
+      if (value[field] === undefined) {
+        errors.push({ path: `${path}.${field}`, message: 'Missing required field', expected: field, value: undefined });
+      }
+    });
+    Object.entries(schema['properties'] || {}).forEach(([field, property]) => {
+      if (value[field] !== undefined) {
+        errors.push(...validateNode(property as JsonSchema, value[field], `${path}.${field}`, root));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Built-in validator covering the JSON Schema keywords used by getJsonSchema
+ */
+export const builtinSchemaValidator: SchemaValidator = {
+  name: 'builtin',
+  validate: (schema, payload, path) => validateNode(schema, payload, path, schema)
+};
+
+let schemaValidator: SchemaValidator = builtinSchemaValidator;
+
+/**
+ * Replace the backend used by validatePayload (pass nothing to restore the built-in one)
+ */
+export function setSchemaValidator(validator?: SchemaValidator): void {
+  schemaValidator = validator || builtinSchemaValidator;
+}
+
+/**
+ * Get the backend currently used by validatePayload
+ */
+export function getSchemaValidator(): SchemaValidator {
+  return schemaValidator;
+}
+
+/**
+ * Validate an untrusted Button[] payload (e.g. JSON received from another service)
+ */
+export function validateButtonsPayload(payload: unknown): ValidationResult {
+  const errors = schemaValidator.validate(getButtonsSchema(), payload, 'buttons');
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: []
+  };
+}
+
+/**
+ * Type guard narrowing an untrusted payload to Button[]
+ */
+export function validatePayload(payload: unknown): payload is Button[] {
+  return validateButtonsPayload(payload).isValid;
+}
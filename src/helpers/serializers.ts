@@ -0,0 +1,481 @@
+/**
+ * Per-type serializers translating typed Button objects into the exact
+ * buttonParamsJson payload WhatsApp expects for each native flow button,
+ * and back again.
+ *
+ * The round trip is lossless: parseNativeFlowButton(serializeButton(b))
+ * yields an object equal to b (with its `type` made explicit).
+ */
+
+import {
+  BaseButton,
+  Button,
+  ButtonParams,
+  ButtonSerializerRegistry,
+  ButtonType,
+  NativeFlowButton,
+  OrderSummary
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+
+/**
+ * Flow message version sent when a flow button does not set one
+ */
+export const FLOW_MESSAGE_VERSION = '3';
+
+/**
+ * Offset used by WhatsApp for monetary amounts ({ value, offset } pairs)
+ */
+const AMOUNT_OFFSET = 100;
+
+/**
+ * Common fields shared by every button payload
+ */
+function serializeBase(button: BaseButton): ButtonParams {
+  const params: ButtonParams = {
+    display_text: button.title,
+    id: button.id
+  };
+
+  if (button.subtitle !== undefined) params['subtitle'] = button.subtitle;
+  if (button.disabled !== undefined) params['disabled'] = button.disabled;
+
+  return params;
+}
+
+/**
+ * Convert a decimal amount into WhatsApp's { value, offset } representation
+ */
+function toAmount(amount: number): { value: number; offset: number } {
+  return { value: Math.round(amount * AMOUNT_OFFSET), offset: AMOUNT_OFFSET };
+}
+
+/**
+ * Convert a { value, offset } amount back into a decimal number
+ */
+export function fromAmount(amount: any): number {
+  if (!amount || typeof amount.value !== 'number') return 0;
+  return amount.value / (amount.offset || AMOUNT_OFFSET);
+}
+
+/**
+ * Convert a charge into an amount with an optional description
+ */
+function toCharge(amount: number, description?: string): ButtonParams {
+  return { ...toAmount(amount), ...(description !== undefined && { description }) };
+}
+
+/**
+ * Order details payload of a review_and_pay button (order_details flow)
+ */
+function serializeOrder(order: OrderSummary): ButtonParams {
+  const { totals } = order;
+  const params: ButtonParams = {
+    type: order.type,
+    order: {
+      status: order.status,
+      items: order.items.map(item => ({
+        retailer_id: item.retailerId,
+        name: item.name,
+        amount: toAmount(item.price),
+        quantity: item.quantity,
+        ...(item.salePrice !== undefined && { sale_amount: toAmount(item.salePrice) })
+      })),
+      subtotal: toAmount(totals.subtotal),
+      tax: toCharge(totals.tax, order.taxDescription),
+      ...((totals.discount > 0 || order.discountDescription !== undefined) &&
+        { discount: toCharge(totals.discount, order.discountDescription) }),
+      ...((totals.shipping > 0 || order.shippingDescription !== undefined) &&
+        { shipping: toCharge(totals.shipping, order.shippingDescription) })
+    }
+  };
+
+  if (order.paymentConfiguration !== undefined) params['payment_configuration'] = order.paymentConfiguration;
+  return params;
+}
+
+/**
+ * Read the order details back from review_and_pay params
+ */
+function parseOrder(params: ButtonParams): OrderSummary {
+  const order = params['order'] || {};
+  const summary: OrderSummary = {
+    type: params['type'],
+    status: order.status,
+    items: (order.items || []).map((item: any) => ({
+      retailerId: item.retailer_id,
+      name: item.name,
+      price: fromAmount(item.amount),
+      quantity: item.quantity,
+      ...(item.sale_amount !== undefined && { salePrice: fromAmount(item.sale_amount) })
+    })),
+    totals: {
+      subtotal: fromAmount(order.subtotal),
+      discount: fromAmount(order.discount),
+      tax: fromAmount(order.tax),
+      shipping: fromAmount(order.shipping),
+      total: fromAmount(params['total_amount'])
+    }
+  };
+
+  if (order.tax?.description !== undefined) summary.taxDescription = order.tax.description;
+  if (order.discount?.description !== undefined) summary.discountDescription = order.discount.description;
+  if (order.shipping?.description !== undefined) summary.shippingDescription = order.shipping.description;
+  if (params['payment_configuration'] !== undefined) summary.paymentConfiguration = params['payment_configuration'];
+  return summary;
+}
+
+/**
+ * Serializer registry keyed by button type
+ */
+export const BUTTON_SERIALIZERS: ButtonSerializerRegistry = {
+  quick_reply: {
+    serialize: (button) => {
+      const params = serializeBase(button);
+      if (button.body !== undefined) params['body'] = button.body;
+      if (button.response !== undefined) params['response'] = button.response;
+      return params;
+    },
+    parse: (params, base) => ({
+      ...base,
+      type: 'quick_reply',
+      ...(params['body'] !== undefined && { body: params['body'] }),
+      ...(params['response'] !== undefined && { response: params['response'] })
+    })
+  },
+
+  cta_url: {
+    serialize: (button) => ({
+      ...serializeBase(button),
+      url: button.url,
+      merchant_url: button.url
+    }),
+    parse: (params, base) => ({ ...base, type: 'cta_url', url: params['url'] })
+  },
+
+  cta_copy: {
+    serialize: (button) => ({ ...serializeBase(button), copy_code: button.copyText }),
+    parse: (params, base) => ({ ...base, type: 'cta_copy', copyText: params['copy_code'] })
+  },
+
+  cta_call: {
+    serialize: (button) => ({ ...serializeBase(button), phone_number: button.phoneNumber }),
+    parse: (params, base) => ({ ...base, type: 'cta_call', phoneNumber: params['phone_number'] })
+  },
+
+  cta_catalog: {
+    serialize: (button) => ({ ...serializeBase(button), catalog_link: button.catalogLink }),
+    parse: (params, base) => ({ ...base, type: 'cta_catalog', catalogLink: params['catalog_link'] })
+  },
+
+  cta_reminder: {
+    serialize: (button) => ({
+      ...serializeBase(button),
+      reminder_text: button.reminderText,
+      date_time: button.dateTime
+    }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'cta_reminder',
+      reminderText: params['reminder_text'],
+      dateTime: params['date_time']
+    })
+  },
+
+  cta_cancel_reminder: {
+    serialize: (button) => ({ ...serializeBase(button), reminder_id: button.reminderId }),
+    parse: (params, base) => ({ ...base, type: 'cta_cancel_reminder', reminderId: params['reminder_id'] })
+  },
+
+  address_message: {
+    serialize: (button) => ({ ...serializeBase(button), address_id: button.addressId }),
+    parse: (params, base) => ({ ...base, type: 'address_message', addressId: params['address_id'] })
+  },
+
+  send_location: {
+    serialize: (button) => {
+      const params = serializeBase(button);
+      if (button.latitude !== undefined) params['latitude'] = button.latitude;
+      if (button.longitude !== undefined) params['longitude'] = button.longitude;
+      if (button.address !== undefined) params['address'] = button.address;
+      return params;
+    },
+    parse: (params, base) => ({
+      ...base,
+      type: 'send_location',
+      ...(params['latitude'] !== undefined && { latitude: params['latitude'] }),
+      ...(params['longitude'] !== undefined && { longitude: params['longitude'] }),
+      ...(params['address'] !== undefined && { address: params['address'] })
+    })
+  },
+
+  open_webview: {
+    serialize: (button) => {
+      const { display_text, ...rest } = serializeBase(button);
+      const params: ButtonParams = {
+        ...rest,
+        title: display_text,
+        link: { url: button.url, in_app_webview: true }
+      };
+      if (button.webviewHeight !== undefined) params['webview_height'] = button.webviewHeight;
+      return params;
+    },
+    parse: (params, base) => ({
+      ...base,
+      type: 'open_webview',
+      url: params['link']?.url,
+      ...(params['webview_height'] !== undefined && { webviewHeight: params['webview_height'] })
+    })
+  },
+
+  mpm: {
+    serialize: (button) => {
+      const params: ButtonParams = { ...serializeBase(button), merchant_id: button.merchantId };
+      if (button.catalogId !== undefined) params['catalog_id'] = button.catalogId;
+      if (button.sections !== undefined) {
+        params['sections'] = button.sections.map(section => ({
+          title: section.title,
+          product_items: section.productIds.map(productId => ({ product_retailer_id: productId }))
+        }));
+      }
+      return params;
+    },
+    parse: (params, base) => ({
+      ...base,
+      type: 'mpm',
+      merchantId: params['merchant_id'],
+      ...(params['catalog_id'] !== undefined && { catalogId: params['catalog_id'] }),
+      ...(params['sections'] !== undefined && {
+        sections: params['sections'].map((section: any) => ({
+          title: section.title,
+          productIds: (section.product_items || []).map((item: any) => item.product_retailer_id)
+        }))
+      })
+    })
+  },
+
+  wa_payment_transaction_details: {
+    serialize: (button) => ({ ...serializeBase(button), transaction_id: button.transactionId }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'wa_payment_transaction_details',
+      transactionId: params['transaction_id']
+    })
+  },
+
+  automated_greeting_message_view_catalog: {
+    serialize: (button) => ({ ...serializeBase(button), catalog_product_id: button.catalogId }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'automated_greeting_message_view_catalog',
+      catalogId: params['catalog_product_id']
+    })
+  },
+
+  galaxy_message: {
+    serialize: (button) => ({
+      ...serializeBase(button),
+      message_type: button.messageType,
+      payload: button.payload
+    }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'galaxy_message',
+      messageType: params['message_type'],
+      payload: params['payload']
+    })
+  },
+
+  single_select: {
+    serialize: (button) => {
+      const { display_text, ...rest } = serializeBase(button);
+      return {
+        ...rest,
+        title: display_text,
+        sections: [{
+          rows: button.options.map(option => ({
+            id: option.id,
+            title: option.title,
+            ...(option.description !== undefined && { description: option.description })
+          }))
+        }]
+      };
+    },
+    parse: (params, base) => ({
+      ...base,
+      type: 'single_select',
+      options: (params['sections'] || []).flatMap((section: any) =>
+        (section.rows || []).map((row: any) => ({
+          id: row.id,
+          title: row.title,
+          ...(row.description !== undefined && { description: row.description })
+        }))
+      )
+    })
+  },
+
+  review_and_pay: {
+    serialize: (button) => ({
+      ...serializeBase(button),
+      reference_id: button.orderId,
+      currency: button.currency,
+      total_amount: toAmount(button.amount),
+      ...(button.order !== undefined && serializeOrder(button.order))
+    }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'review_and_pay',
+      orderId: params['reference_id'],
+      currency: params['currency'],
+      amount: fromAmount(params['total_amount']),
+      ...(params['order'] !== undefined && { order: parseOrder(params) })
+    })
+  },
+
+  payment_info: {
+    serialize: (button) => ({
+      ...serializeBase(button),
+      payment_id: button.paymentId,
+      currency: button.currency,
+      total_amount: toAmount(button.amount),
+      status: button.status
+    }),
+    parse: (params, base) => ({
+      ...base,
+      type: 'payment_info',
+      paymentId: params['payment_id'],
+      currency: params['currency'],
+      amount: fromAmount(params['total_amount']),
+      status: params['status']
+    })
+  },
+
+  // Defaults (navigate, published, current version) are written out and omitted again when parsed
+  flow: {
+    serialize: (button) => {
+      const { display_text, ...rest } = serializeBase(button);
+      const params: ButtonParams = {
+        ...rest,
+        flow_message_version: button.flowMessageVersion ?? FLOW_MESSAGE_VERSION,
+        flow_token: button.flowToken,
+        flow_id: button.flowId,
+        flow_cta: display_text,
+        flow_action: button.flowAction ?? 'navigate',
+        mode: button.mode ?? 'published'
+      };
+      if (button.screen !== undefined || button.data !== undefined) {
+        params['flow_action_payload'] = {
+          ...(button.screen !== undefined && { screen: button.screen }),
+          ...(button.data !== undefined && { data: button.data })
+        };
+      }
+      return params;
+    },
+    parse: (params, base) => {
+      const payload = params['flow_action_payload'] || {};
+      return {
+        ...base,
+        title: params['flow_cta'] ?? base.title,
+        type: 'flow',
+        flowId: params['flow_id'],
+        flowToken: params['flow_token'],
+        ...(params['flow_action'] !== undefined && params['flow_action'] !== 'navigate' &&
+          { flowAction: params['flow_action'] }),
+        ...(payload.screen !== undefined && { screen: payload.screen }),
+        ...(payload.data !== undefined && { data: payload.data }),
+        ...(params['mode'] !== undefined && params['mode'] !== 'published' && { mode: params['mode'] }),
+        ...(params['flow_message_version'] !== undefined && params['flow_message_version'] !== FLOW_MESSAGE_VERSION &&
+          { flowMessageVersion: params['flow_message_version'] })
+      };
+    }
+  }
+};
+
+/**
+ * Check whether a name refers to a known button type
+ */
+export function isButtonType(name: unknown): name is ButtonType {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(BUTTON_SERIALIZERS, name);
+}
+
+/**
+ * Serialize a typed button into its buttonParamsJson payload object
+ *
+ * @param button Button to serialize
+ * @param type Button type (detected by the caller)
+ */
+export function serializeButtonParams(button: Button, type: ButtonType): ButtonParams {
+  const serializer = BUTTON_SERIALIZERS[type] as { serialize: (button: Button) => ButtonParams };
+  return serializer.serialize(button);
+}
+
+/**
+ * Serialize a typed button into the native flow { name, buttonParamsJson } entry
+ *
+ * @param button Button to serialize
+ * @param type Button type (detected by the caller)
+ */
+export function serializeButton(button: Button, type: ButtonType): NativeFlowButton {
+  return {
+    name: type,
+    buttonParamsJson: JSON.stringify(serializeButtonParams(button, type))
+  };
+}
+
+/**
+ * Parse a decoded buttonParamsJson payload back into a typed button
+ *
+ * @param type Button type (the native flow button name)
+ * @param params Decoded buttonParamsJson object
+ */
+export function parseButtonParams(type: ButtonType, params: ButtonParams): Button {
+  const base: BaseButton = {
+    id: params['id'] ?? '',
+    title: params['display_text'] ?? params['title'] ?? ''
+  };
+
+  if (params['subtitle'] !== undefined) base.subtitle = params['subtitle'];
+  if (params['disabled'] !== undefined) base.disabled = params['disabled'];
+
+  const serializer = BUTTON_SERIALIZERS[type] as { parse: (params: ButtonParams, base: BaseButton) => Button };
+  return serializer.parse(params, base);
+}
+
+/**
+ * Parse a native flow { name, buttonParamsJson } entry back into a typed button
+ *
+ * @param button Native flow button entry
+ * @throws InteractiveValidationError when the name is unknown or the JSON is malformed
+ */
+export function parseNativeFlowButton(button: NativeFlowButton): Button {
+  if (!isButtonType(button.name)) {
+    throw new InteractiveValidationError(
+      `Unknown button type: ${button.name}`,
+      'parseNativeFlowButton',
+      [{
+        path: 'name',
+        message: 'Button name must be a supported button type',
+        expected: Object.keys(BUTTON_SERIALIZERS),
+        value: button.name
+      }]
+    );
+  }
+
+  let params: ButtonParams;
+  try {
+    params = JSON.parse(button.buttonParamsJson);
+  } catch (error) {
+    throw new InteractiveValidationError(
+      'buttonParamsJson is not valid JSON',
+      'parseNativeFlowButton',
+      [{
+        path: 'buttonParamsJson',
+        message: (error as Error).message,
+        expected: 'JSON string',
+        value: button.buttonParamsJson
+      }]
+    );
+  }
+
+  return parseButtonParams(button.name, params);
+}
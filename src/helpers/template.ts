@@ -0,0 +1,236 @@
+/**
+ * Message templates: {{placeholder}} interpolation and localization.
+ *
+ * Any text of a message configuration or its buttons may contain
+ *  - {{name}}        replaced with a per-recipient variable
+ *  - {{t:menu.buy}}  replaced with the translation of an i18n key from the
+ *                    locale bundle (translations may use {{name}} themselves)
+ * Rendering leaves unknown placeholders in place. They are looked up in the
+ * template (findUnresolvedPlaceholders), so a value that itself contains
+ * {{...}} is not mistaken for one, and validateRenderedTemplate reports them
+ * together with the usual length limits.
+ *
+ * Values substituted into the url of a cta_url button are URI-encoded, unless
+ * the url starts with the placeholder (which then supplies the whole base).
+ */
+
+import {
+  Button,
+  InteractiveMessageConfig,
+  LocaleBundle,
+  SendTemplatedMessageParams,
+  SentInteractiveMessage,
+  TemplateLocalization,
+  TemplateVariables,
+  ValidationError,
+  ValidationResult
+} from '../types/index.js';
+import { InteractiveValidationError } from '../types/validation.js';
+import { sendInteractiveMessage, validateInteractiveMessage } from './buttons.js';
+import { recordValidationFailure } from './metrics.js';
+
+/**
+ * Matches {{name}} and {{t:key}} placeholders (whitespace inside the braces is ignored)
+ */
+export const PLACEHOLDER_PATTERN = /\{\{\s*(t:)?([\w.-]+)\s*\}\}/g;
+
+/**
+ * Look up a dotted key (e.g. "menu.buy") in a locale bundle
+ */
+function lookupKey(bundle: LocaleBundle | undefined, key: string): string | undefined {
+  let node: string | LocaleBundle | undefined = bundle;
+  for (const part of key.split('.')) {
+    if (!node || typeof node === 'string') return undefined;
+    node = node[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Translate an i18n key, falling back from the regional locale ("es-MX")
+ * to its language ("es") and then to the fallback locale
+ */
+export function translate(key: string, localization: TemplateLocalization = {}): string | undefined {
+  const { locale, fallbackLocale, bundles = {} } = localization;
+  const candidates = [locale, locale?.split('-')[0], fallbackLocale];
+
+  for (const candidate of candidates) {
+    const translation = candidate ? lookupKey(bundles[candidate], key) : undefined;
+    if (translation !== undefined) return translation;
+  }
+  return undefined;
+}
+
+/**
+ * Replace the {{t:key}} placeholders of a string with their translation; missing ones are left as-is
+ */
+function translatePlaceholders(text: string, localization?: TemplateLocalization): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, i18n: string | undefined, key: string) =>
+    i18n ? translate(key, localization) ?? placeholder : placeholder);
+}
+
+/**
+ * Replace {{t:key}} and {{name}} placeholders in a string; unknown placeholders are left as-is
+ *
+ * @param isUrl Whether the string is a url, whose substituted values (except a leading one) are URI-encoded
+ */
+export function renderTemplate(
+  text: string,
+  variables: TemplateVariables = {},
+  localization?: TemplateLocalization,
+  isUrl = false
+): string {
+  // Translations first, so translated text can use variables
+  const translated = translatePlaceholders(text, localization);
+
+  return translated.replace(PLACEHOLDER_PATTERN, (placeholder, i18n: string | undefined, name: string, offset: number) => {
+    const value = i18n ? undefined : variables[name];
+    if (value === undefined) return placeholder;
+    return isUrl && offset > 0 ? encodeURIComponent(String(value)) : String(value);
+  });
+}
+
+/**
+ * Check whether a value is a plain object literal (not a Buffer, stream, ...)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Check whether a field of an object holds the url of a cta_url button
+ */
+function isButtonUrl(object: Record<string, unknown>, key: string): boolean {
+  return key === 'url' && object['type'] === 'cta_url';
+}
+
+/**
+ * Render every string inside plain objects and arrays
+ */
+function renderDeep<T>(value: T, variables: TemplateVariables, localization?: TemplateLocalization, isUrl = false): T {
+  if (typeof value === 'string') return renderTemplate(value, variables, localization, isUrl) as T;
+  if (Array.isArray(value)) return value.map(item => renderDeep(item, variables, localization)) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value)
+      .map(([key, item]) => [key, renderDeep(item, variables, localization, isButtonUrl(value, key))])) as T;
+  }
+  return value;
+}
+
+/**
+ * Render the text of a message configuration and its buttons
+ * (body, footer, header text, captions, button titles, options, ...)
+ */
+export function renderMessageTemplate(
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  variables: TemplateVariables = {},
+  localization?: TemplateLocalization
+): { config: InteractiveMessageConfig; buttons: Button[] } {
+  return {
+    config: renderDeep(config, variables, localization),
+    buttons: renderDeep(buttons, variables, localization)
+  };
+}
+
+/**
+ * Report every placeholder of a template value that the variables and locale bundles cannot resolve
+ */
+function findUnresolved(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+  variables: TemplateVariables = {},
+  localization?: TemplateLocalization
+): void {
+  if (typeof value === 'string') {
+    // Translations may bring placeholders of their own
+    for (const match of translatePlaceholders(value, localization).matchAll(PLACEHOLDER_PATTERN)) {
+      const [placeholder, i18n, name = ''] = match;
+      if (!i18n && variables[name] !== undefined) continue;
+
+      errors.push({
+        path,
+        message: i18n ? `Missing translation for ${placeholder}` : `Unresolved placeholder ${placeholder}`,
+        expected: i18n ? 'translation in the locale bundle' : 'template variable',
+        value: placeholder
+      });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => findUnresolved(item, `${path}[${index}]`, errors, variables, localization));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, item]) =>
+      findUnresolved(item, path ? `${path}.${key}` : key, errors, variables, localization));
+  }
+}
+
+/**
+ * Check whether a value (string, array or plain object) contains any placeholder
+ */
+export function hasPlaceholders(value: unknown): boolean {
+  const errors: ValidationError[] = [];
+  findUnresolved(value, '', errors);
+  return errors.length > 0;
+}
+
+/**
+ * Find the placeholders of a message template that cannot be resolved
+ * (checked in the template, before values are substituted)
+ */
+export function findUnresolvedPlaceholders(
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  variables: TemplateVariables = {},
+  localization?: TemplateLocalization
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  findUnresolved(config, '', errors, variables, localization);
+  findUnresolved(buttons, 'buttons', errors, variables, localization);
+  return errors;
+}
+
+/**
+ * Validate a rendered message: every placeholder resolved and the usual limits still met
+ *
+ * @param unresolved Placeholders of the template found by findUnresolvedPlaceholders
+ */
+export function validateRenderedTemplate(
+  config: InteractiveMessageConfig,
+  buttons: Button[],
+  unresolved: ValidationError[] = []
+): ValidationResult {
+  const validation = validateInteractiveMessage(config, buttons);
+
+  return {
+    ...validation,
+    isValid: unresolved.length === 0 && validation.isValid,
+    errors: [...unresolved, ...validation.errors]
+  };
+}
+
+/**
+ * Render a templated message for one recipient and send it
+ */
+export async function sendTemplatedMessage(params: SendTemplatedMessageParams): Promise<SentInteractiveMessage> {
+  const { variables, locale, fallbackLocale, bundles, ...sendParams } = params;
+  const localization: TemplateLocalization = {
+    ...(locale !== undefined && { locale }),
+    ...(fallbackLocale !== undefined && { fallbackLocale }),
+    ...(bundles !== undefined && { bundles })
+  };
+  const rendered = renderMessageTemplate(sendParams.config, sendParams.buttons, variables, localization);
+  const unresolved = findUnresolvedPlaceholders(sendParams.config, sendParams.buttons, variables, localization);
+
+  const validation = validateRenderedTemplate(rendered.config, rendered.buttons, unresolved);
+  if (!validation.isValid) {
+    recordValidationFailure('sendTemplatedMessage', validation.errors);
+    throw new InteractiveValidationError(
+      'Invalid rendered message template',
+      'sendTemplatedMessage',
+      validation.errors,
+      validation.warnings
+    );
+  }
+
+  return sendInteractiveMessage({ ...sendParams, ...rendered });
+}
@@ -5,6 +5,28 @@
  */
 
 import * as Buttons from './helpers/buttons.js';
+import * as Serializers from './helpers/serializers.js';
+import * as Responses from './helpers/responses.js';
+import * as Carousel from './helpers/carousel.js';
+import * as List from './helpers/list.js';
+import * as Media from './helpers/media.js';
+import * as Adapter from './helpers/adapter.js';
+import * as Edit from './helpers/edit.js';
+import * as Bulk from './helpers/bulk.js';
+import * as Template from './helpers/template.js';
+import * as Legacy from './helpers/legacy.js';
+import * as Rules from './helpers/rules.js';
+import * as Schema from './helpers/schema.js';
+import * as Menu from './helpers/menu.js';
+import * as Commerce from './helpers/commerce.js';
+import * as Forms from './helpers/forms.js';
+import * as Fallback from './helpers/fallback.js';
+import * as Render from './helpers/render.js';
+import * as Middleware from './helpers/middleware.js';
+import * as Logger from './helpers/logger.js';
+import * as Metrics from './helpers/metrics.js';
+import { FlowRouter, MemoryFlowStateStore } from './helpers/flow.js';
+import { interactive, InteractiveMessageBuilder } from './helpers/builder.js';
 import * as Validation from './types/validation.js';
 import * as Types from './types/index.js';
 
@@ -38,7 +60,7 @@ export async function sendButtons(
   buttons: Types.Button[],
   body: string,
   footer?: string
-): Promise<any> {
+): Promise<Types.SentInteractiveMessage> {
   const config: Types.InteractiveMessageConfig = {
     body,
     footer
@@ -52,17 +74,143 @@ export async function sendButtons(
   });
 }
 
+/**
+ * Create send functions bound to a specific Baileys module.
+ * Use this instead of configure() when several forks are in use side by side.
+ * @param baileysModule The imported Baileys module (any fork)
+ */
+export function createHelper(baileysModule: any): Types.BaileysHelper {
+  const baileys = Adapter.createBaileysAdapter(baileysModule);
+  
+  return {
+    baileys,
+    sendButtons: (socket, jid, buttons, body, footer) => Buttons.sendInteractiveButtonsBasic({
+      socket,
+      jid,
+      config: { body, ...(footer !== undefined && { footer }) },
+      buttons,
+      baileys
+    }),
+    sendInteractiveButtonsBasic: params => Buttons.sendInteractiveButtonsBasic({ ...params, baileys }),
+    sendInteractiveMessage: params => Buttons.sendInteractiveMessage({ ...params, baileys }),
+    sendCarousel: params => Carousel.sendCarousel({ ...params, baileys }),
+    sendListMessage: params => List.sendListMessage({ ...params, baileys }),
+    prepareHeaderMedia: (socket, headerMedia) => Media.prepareHeaderMedia(socket, headerMedia, baileys)
+  };
+}
+
 // Re-export all helper functions
 export const sendInteractiveButtonsBasic = Buttons.sendInteractiveButtonsBasic;
 export const sendInteractiveMessage = Buttons.sendInteractiveMessage;
 export const buildInteractiveButtons = Buttons.buildInteractiveButtons;
+export const editInteractiveMessage = Edit.editInteractiveMessage;
+export const revokeInteractiveMessage = Edit.revokeInteractiveMessage;
+export const DEFAULT_EPHEMERAL_EXPIRATION = Buttons.DEFAULT_EPHEMERAL_EXPIRATION;
+export const sendBulkInteractive = Bulk.sendBulkInteractive;
+export const isTransientError = Bulk.isTransientError;
+export const BULK_DEFAULTS = Bulk.BULK_DEFAULTS;
+export const renderTemplate = Template.renderTemplate;
+export const renderMessageTemplate = Template.renderMessageTemplate;
+export const validateRenderedTemplate = Template.validateRenderedTemplate;
+export const findUnresolvedPlaceholders = Template.findUnresolvedPlaceholders;
+export const sendTemplatedMessage = Template.sendTemplatedMessage;
+export const translate = Template.translate;
 export const validateInteractiveMessage = Buttons.validateInteractiveMessage;
 export const normalizeButtonFormat = Buttons.buildInteractiveButtons; // Alias
 export const isValidButtonId = Buttons.isValidButtonId;
 export const getButtonType = Buttons.getButtonType;
+export const createBinaryNode = Buttons.createBinaryNode;
+export const buildAdditionalNodes = Buttons.buildAdditionalNodes;
+export const isJidGroup = Buttons.isJidGroup;
+export const getUnsupportedRecipientReason = Buttons.getUnsupportedRecipientReason;
+export const validateLegacyButtons = Legacy.validateLegacyButtons;
+export const buildLegacyMessageContent = Legacy.buildLegacyMessageContent;
+export const serializeButton = Serializers.serializeButton;
+export const parseNativeFlowButton = Serializers.parseNativeFlowButton;
+export const parseButtonParams = Serializers.parseButtonParams;
+export const BUTTON_SERIALIZERS = Serializers.BUTTON_SERIALIZERS;
+export const parseButtonResponse = Responses.parseButtonResponse;
+export const sendCarousel = Carousel.sendCarousel;
+export const validateCarousel = Carousel.validateCarousel;
+export const buildCarouselContent = Carousel.buildCarouselContent;
+export const sendListMessage = List.sendListMessage;
+export const validateListMessage = List.validateListMessage;
+export const buildListMessageContent = List.buildListMessageContent;
+export const LIST_LIMITS = List.LIST_LIMITS;
+export const sendProductMessage = Commerce.sendProductMessage;
+export const validateProductMessage = Commerce.validateProductMessage;
+export const sendMultiProductMessage = Commerce.sendMultiProductMessage;
+export const validateMultiProductMessage = Commerce.validateMultiProductMessage;
+export const sendOrderDetailsMessage = Commerce.sendOrderDetailsMessage;
+export const validateOrder = Commerce.validateOrder;
+export const computeOrderTotals = Commerce.computeOrderTotals;
+export const buildOrderButton = Commerce.buildOrderButton;
+export const parseCommerceResponse = Commerce.parseCommerceResponse;
+export const COMMERCE_LIMITS = Commerce.COMMERCE_LIMITS;
+export const sendFlowMessage = Forms.sendFlowMessage;
+export const validateFlowMessage = Forms.validateFlowMessage;
+export const buildFlowButton = Forms.buildFlowButton;
+export const parseFlowResponse = Forms.parseFlowResponse;
+export const sendFallbackMessage = Fallback.sendFallbackMessage;
+export const buildFallbackPoll = Fallback.buildFallbackPoll;
+export const buildFallbackText = Fallback.buildFallbackText;
+export const clearFallbackMenus = Fallback.clearFallbackMenus;
+export const POLL_LIMITS = Fallback.POLL_LIMITS;
+export const renderInteractiveAsText = Render.renderInteractiveAsText;
+export const renderInteractiveAsHtml = Render.renderInteractiveAsHtml;
+export const getButtonDetail = Render.getButtonDetail;
+export const prepareHeaderMedia = Media.prepareHeaderMedia;
+export const clearMediaCache = Media.clearMediaCache;
+export const configure = Adapter.configure;
+export const resetConfiguration = Adapter.resetConfiguration;
+export const createBaileysAdapter = Adapter.createBaileysAdapter;
+export const getBaileysAdapter = Adapter.getBaileysAdapter;
+export const detectCapabilities = Adapter.detectCapabilities;
+export const MESSAGE_LIMITS = Rules.MESSAGE_LIMITS;
+export const CONFIG_RULES = Rules.CONFIG_RULES;
+export const BASE_BUTTON_RULES = Rules.BASE_BUTTON_RULES;
+export const BUTTON_RULES = Rules.BUTTON_RULES;
+export const COUNT_RULES = Rules.COUNT_RULES;
+export const getJsonSchema = Schema.getJsonSchema;
+export const validatePayload = Schema.validatePayload;
+export const validateButtonsPayload = Schema.validateButtonsPayload;
+export const setSchemaValidator = Schema.setSchemaValidator;
+export const getSchemaValidator = Schema.getSchemaValidator;
+export const parseMenuDefinition = Menu.parseMenuDefinition;
+export const loadMenuFile = Menu.loadMenuFile;
+export const watchMenuFile = Menu.watchMenuFile;
+
+// Re-export middleware pipeline
+export const useMiddleware = Middleware.useMiddleware;
+export const removeMiddleware = Middleware.removeMiddleware;
+export const clearMiddleware = Middleware.clearMiddleware;
+export const getMiddleware = Middleware.getMiddleware;
+
+// Re-export logging and metrics
+export const setLogger = Logger.setLogger;
+export const getLogger = Logger.getLogger;
+export const getStats = Metrics.getStats;
+export const resetStats = Metrics.resetStats;
+export const formatPrometheusMetrics = Metrics.formatPrometheusMetrics;
+export const prometheusHandler = Metrics.prometheusHandler;
+export const PROMETHEUS_CONTENT_TYPE = Metrics.PROMETHEUS_CONTENT_TYPE;
+export const RELAY_LATENCY_BUCKETS = Metrics.RELAY_LATENCY_BUCKETS;
+
+// Re-export fluent builder
+export { interactive, InteractiveMessageBuilder, HeaderBuilder } from './helpers/builder.js';
+
+// Re-export conversation flow router
+export { FlowRouter, MemoryFlowStateStore } from './helpers/flow.js';
 
 // Re-export validation types
 export { InteractiveValidationError } from './types/validation.js';
+export {
+  BaileysCapabilityError,
+  BaileysNotFoundError,
+  MediaUploadError,
+  RelayError,
+  UnsupportedRecipientError
+} from './types/errors.js';
 
 // Re-export all types
 export * from './types/index.js';
@@ -78,9 +226,102 @@ export default {
   sendInteractiveButtonsBasic,
   sendInteractiveMessage,
   buildInteractiveButtons,
+  editInteractiveMessage,
+  revokeInteractiveMessage,
+  DEFAULT_EPHEMERAL_EXPIRATION,
+  sendBulkInteractive,
+  isTransientError,
+  BULK_DEFAULTS,
+  renderTemplate,
+  renderMessageTemplate,
+  validateRenderedTemplate,
+  findUnresolvedPlaceholders,
+  sendTemplatedMessage,
+  translate,
   validateInteractiveMessage,
   isValidButtonId,
   getButtonType,
+  createBinaryNode,
+  buildAdditionalNodes,
+  isJidGroup,
+  getUnsupportedRecipientReason,
+  validateLegacyButtons,
+  buildLegacyMessageContent,
+  serializeButton,
+  parseNativeFlowButton,
+  parseButtonParams,
+  BUTTON_SERIALIZERS,
+  parseButtonResponse,
+  sendCarousel,
+  validateCarousel,
+  buildCarouselContent,
+  sendListMessage,
+  validateListMessage,
+  buildListMessageContent,
+  LIST_LIMITS,
+  sendProductMessage,
+  validateProductMessage,
+  sendMultiProductMessage,
+  validateMultiProductMessage,
+  sendOrderDetailsMessage,
+  validateOrder,
+  computeOrderTotals,
+  buildOrderButton,
+  parseCommerceResponse,
+  COMMERCE_LIMITS,
+  sendFlowMessage,
+  validateFlowMessage,
+  buildFlowButton,
+  parseFlowResponse,
+  sendFallbackMessage,
+  buildFallbackPoll,
+  buildFallbackText,
+  clearFallbackMenus,
+  POLL_LIMITS,
+  renderInteractiveAsText,
+  renderInteractiveAsHtml,
+  getButtonDetail,
+  useMiddleware,
+  removeMiddleware,
+  clearMiddleware,
+  getMiddleware,
+  setLogger,
+  getLogger,
+  getStats,
+  resetStats,
+  formatPrometheusMetrics,
+  prometheusHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  RELAY_LATENCY_BUCKETS,
+  prepareHeaderMedia,
+  clearMediaCache,
+  configure,
+  resetConfiguration,
+  createHelper,
+  createBaileysAdapter,
+  getBaileysAdapter,
+  detectCapabilities,
+  MESSAGE_LIMITS,
+  CONFIG_RULES,
+  BASE_BUTTON_RULES,
+  BUTTON_RULES,
+  COUNT_RULES,
+  getJsonSchema,
+  validatePayload,
+  validateButtonsPayload,
+  setSchemaValidator,
+  getSchemaValidator,
+  
+  // Fluent builder
+  interactive,
+  InteractiveMessageBuilder,
+  
+  // Conversation flows
+  FlowRouter,
+  MemoryFlowStateStore,
+  parseMenuDefinition,
+  loadMenuFile,
+  watchMenuFile,
   
   // Error handling
   InteractiveValidationError,
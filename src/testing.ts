@@ -0,0 +1,14 @@
+/**
+ * Offline testing helpers, published as "baileys-helper/testing".
+ *
+ * Kept out of the main entry point so applications do not load Node's
+ * assert module and the mock socket at runtime.
+ */
+
+export {
+  createMockSocket,
+  decodeRelayedMessage,
+  assertSent,
+  assertButtons,
+  toSnapshot
+} from './helpers/mock.js';
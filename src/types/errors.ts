@@ -0,0 +1,280 @@
+import { MessageKey } from './index.js';
+
+/**
+ * Error thrown when the configured Baileys module lacks functions the helper needs
+ */
+export class BaileysCapabilityError extends Error {
+  override name: string = 'BaileysCapabilityError';
+  context: string;
+  missing: string[];
+
+  constructor(message: string, context: string, missing: string[] = []) {
+    super(message);
+    this.context = context;
+    this.missing = missing;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BaileysCapabilityError);
+    }
+  }
+
+  /**
+   * Convert the error to a JSON representation
+   */
+  toJSON(): { name: string; message: string; context: string; missing: string[] } {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      missing: this.missing
+    };
+  }
+
+  /**
+   * Format detailed error information
+   */
+  formatDetailed(): string {
+    let output = `${this.name}: ${this.message}\n`;
+    output += `Context: ${this.context}\n`;
+
+    if (this.missing.length > 0) {
+      output += '\nMissing:\n';
+      this.missing.forEach((name, index) => {
+        output += `  ${index + 1}. ${name}\n`;
+      });
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Error thrown when no Baileys module was configured and none of the known forks is installed
+ */
+export class BaileysNotFoundError extends Error {
+  override name: string = 'BaileysNotFoundError';
+  context: string;
+  candidates: string[];
+
+  constructor(message: string, context: string, candidates: string[] = []) {
+    super(message);
+    this.context = context;
+    this.candidates = candidates;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BaileysNotFoundError);
+    }
+  }
+
+  /**
+   * Convert the error to a JSON representation
+   */
+  toJSON(): { name: string; message: string; context: string; candidates: string[] } {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      candidates: this.candidates
+    };
+  }
+
+  /**
+   * Format detailed error information
+   */
+  formatDetailed(): string {
+    let output = `${this.name}: ${this.message}\n`;
+    output += `Context: ${this.context}\n`;
+
+    if (this.candidates.length > 0) {
+      output += '\nTried:\n';
+      this.candidates.forEach((name, index) => {
+        output += `  ${index + 1}. ${name}\n`;
+      });
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Error thrown when a built message could not be relayed.
+ * `retryable` tells whether sending the same message again may succeed.
+ */
+export class RelayError extends Error {
+  override name: string = 'RelayError';
+  context: string;
+  jid: string;
+  key: MessageKey | undefined;
+  retryable: boolean;
+  cause: unknown;
+
+  constructor(
+    message: string,
+    context: string,
+    jid: string,
+    options: { key?: MessageKey; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.context = context;
+    this.jid = jid;
+    this.key = options.key;
+    this.retryable = options.retryable ?? true;
+    this.cause = options.cause;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RelayError);
+    }
+  }
+
+  /**
+   * Convert the error to a JSON representation
+   */
+  toJSON(): {
+    name: string;
+    message: string;
+    context: string;
+    jid: string;
+    key?: MessageKey;
+    retryable: boolean;
+    cause?: string;
+  } {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      jid: this.jid,
+      ...(this.key !== undefined && { key: this.key }),
+      retryable: this.retryable,
+      ...(this.cause !== undefined && { cause: describeCause(this.cause) })
+    };
+  }
+
+  /**
+   * Format detailed error information
+   */
+  formatDetailed(): string {
+    let output = `${this.name}: ${this.message}\n`;
+    output += `Context: ${this.context}\n`;
+    output += `Recipient: ${this.jid}\n`;
+    if (this.key?.id) output += `Message ID: ${this.key.id}\n`;
+    output += `Retryable: ${this.retryable ? 'yes' : 'no'}\n`;
+    if (this.cause !== undefined) output += `Cause: ${describeCause(this.cause)}\n`;
+
+    return output;
+  }
+}
+
+/**
+ * Error thrown when header media cannot be prepared or uploaded.
+ * Upload failures are retryable; missing media or a socket without an uploader are not.
+ */
+export class MediaUploadError extends Error {
+  override name: string = 'MediaUploadError';
+  context: string;
+  mediaType: string;
+  retryable: boolean;
+  cause: unknown;
+
+  constructor(
+    message: string,
+    context: string,
+    mediaType: string,
+    options: { retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.context = context;
+    this.mediaType = mediaType;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MediaUploadError);
+    }
+  }
+
+  /**
+   * Convert the error to a JSON representation
+   */
+  toJSON(): { name: string; message: string; context: string; mediaType: string; retryable: boolean; cause?: string } {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      mediaType: this.mediaType,
+      retryable: this.retryable,
+      ...(this.cause !== undefined && { cause: describeCause(this.cause) })
+    };
+  }
+
+  /**
+   * Format detailed error information
+   */
+  formatDetailed(): string {
+    let output = `${this.name}: ${this.message}\n`;
+    output += `Context: ${this.context}\n`;
+    output += `Media type: ${this.mediaType}\n`;
+    output += `Retryable: ${this.retryable ? 'yes' : 'no'}\n`;
+    if (this.cause !== undefined) output += `Cause: ${describeCause(this.cause)}\n`;
+
+    return output;
+  }
+}
+
+/**
+ * Error thrown when a recipient cannot receive interactive messages
+ * (malformed JIDs, broadcast lists and status, newsletters)
+ */
+export class UnsupportedRecipientError extends Error {
+  override name: string = 'UnsupportedRecipientError';
+  context: string;
+  jid: string;
+  reason: string;
+
+  constructor(message: string, context: string, jid: string, reason: string) {
+    super(message);
+    this.context = context;
+    this.jid = jid;
+    this.reason = reason;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedRecipientError);
+    }
+  }
+
+  /**
+   * Convert the error to a JSON representation
+   */
+  toJSON(): { name: string; message: string; context: string; jid: string; reason: string } {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      jid: this.jid,
+      reason: this.reason
+    };
+  }
+
+  /**
+   * Format detailed error information
+   */
+  formatDetailed(): string {
+    let output = `${this.name}: ${this.message}\n`;
+    output += `Context: ${this.context}\n`;
+    output += `Recipient: ${JSON.stringify(this.jid)}\n`;
+    output += `Reason: ${this.reason}\n`;
+
+    return output;
+  }
+}
+
+/**
+ * Describe the underlying error of a failure
+ */
+function describeCause(cause: unknown): string {
+  return cause instanceof Error ? `${cause.name}: ${cause.message}` : String(cause);
+}
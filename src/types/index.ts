@@ -1,18 +1,152 @@
-// Core Baileys types
+// Core Baileys types (structural subset of the socket members this library uses)
 export interface WASocket {
-  sendMessage: (jid: string, message: any, options?: any) => Promise<any>;
-  // Add other WASocket properties as needed
+  sendMessage: (jid: string, content: any, options?: any) => Promise<WAMessage | undefined>;
+  relayMessage: (jid: string, message: any, options: RelayMessageOptions) => Promise<string | void>;
+  user?: { id: string; name?: string; lid?: string };
+  generateMessageTag?: () => string;
+  waUploadToServer?: WAMediaUploadFunction;
+  logger?: Logger;
 }
 
-export interface MessageContent {
-  interactive?: {
-    nativeFlow?: {
-      buttons: any[];
-      messageParams?: any;
-    };
+// Uploads encrypted media, as returned by Baileys' getWAUploadToServer
+export type WAMediaUploadFunction = (
+  filePath: string,
+  options: { fileEncSha256B64: string; mediaType: string; timeoutMs?: number }
+) => Promise<{ mediaUrl: string; directPath: string }>;
+
+// pino-compatible logger
+export interface Logger {
+  level?: string;
+  child?: (bindings: Record<string, unknown>) => Logger;
+  trace: (obj: unknown, msg?: string) => void;
+  debug: (obj: unknown, msg?: string) => void;
+  info: (obj: unknown, msg?: string) => void;
+  warn: (obj: unknown, msg?: string) => void;
+  error: (obj: unknown, msg?: string) => void;
+}
+
+// Message as generated by generateWAMessageFromContent
+export interface WAMessage {
+  key: MessageKey;
+  message?: any;
+  messageTimestamp?: number | { toNumber: () => number };
+}
+
+// Options for relaying built message content
+export interface RelayContentOptions {
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+  additionalAttributes?: { [key: string]: string };
+}
+
+// Options for editing / revoking a sent message
+export interface EditInteractiveMessageOptions {
+  baileys?: BaileysAdapter;
+}
+
+// Result of sending an interactive message, kept to edit or delete it later
+export interface SentInteractiveMessage {
+  key: MessageKey;
+  messageId: string;
+  timestamp: number;
+  jid: string;
+  content: MessageContent;
+  message: WAMessage;
+  fallback?: FallbackStrategy;
+}
+
+// Baileys module adapter
+export interface BaileysCapabilities {
+  generateWAMessageFromContent: boolean;
+  prepareWAMessageMedia: boolean;
+  proto: boolean;
+}
+
+// 'options': relayMessage(jid, message, { messageId, additionalNodes })
+// 'legacy': pre multi-device relayWAMessage(fullMessage), no additional nodes (sends needing them fail)
+export type RelayMessageSignature = 'options' | 'legacy';
+
+export interface BaileysAdapter {
+  module: any;
+  capabilities: BaileysCapabilities;
+  generateWAMessageFromContent: (jid: string, content: any, options: any) => WAMessage;
+  prepareWAMessageMedia: (content: any, options: any) => Promise<any>;
+  relayMessage: (
+    socket: WASocket,
+    jid: string,
+    message: WAMessage,
+    additionalNodes: BinaryNode[],
+    additionalAttributes?: { [key: string]: string }
+  ) => Promise<void>;
+}
+
+export interface HelperOptions {
+  baileys: any;
+}
+
+// Send functions bound to one Baileys module (see createHelper)
+export interface BaileysHelper {
+  baileys: BaileysAdapter;
+  sendButtons: (socket: WASocket, jid: string, buttons: Button[], body: string, footer?: string) => Promise<SentInteractiveMessage>;
+  sendInteractiveButtonsBasic: (params: Omit<SendInteractiveButtonsBasicParams, 'baileys'>) => Promise<SentInteractiveMessage>;
+  sendInteractiveMessage: (params: Omit<SendInteractiveMessageParams, 'baileys'>) => Promise<SentInteractiveMessage>;
+  sendCarousel: (params: Omit<SendCarouselParams, 'baileys'>) => Promise<SentInteractiveMessage>;
+  sendListMessage: (params: Omit<SendListMessageParams, 'baileys'>) => Promise<SentInteractiveMessage>;
+  prepareHeaderMedia: (socket: WASocket, headerMedia: HeaderMedia) => Promise<PreparedHeaderMedia>;
+}
+
+// Binary node model (mirrors the WABinary node shape Baileys relays)
+export interface BinaryNode {
+  tag: string;
+  attrs: { [key: string]: string };
+  content?: BinaryNode[] | string | Uint8Array;
+}
+
+export interface RelayMessageOptions {
+  messageId?: string;
+  additionalNodes?: BinaryNode[];
+  additionalAttributes?: { [key: string]: string };
+}
+
+// interactiveMessage proto (WAProto InteractiveMessage) fields the helper builds
+export interface InteractiveMessageHeader {
+  title?: string;
+  subtitle?: string;
+  hasMediaAttachment: boolean;
+  imageMessage?: any;
+  videoMessage?: any;
+  documentMessage?: any;
+  locationMessage?: any;
+}
+
+export interface NativeFlowMessageContent {
+  buttons: any[];
+  messageParamsJson?: string;
+  messageVersion?: number;
+}
+
+export interface InteractiveMessageContent {
+  header?: InteractiveMessageHeader;
+  body?: { text: string };
+  footer?: { text: string };
+  nativeFlowMessage?: NativeFlowMessageContent;
+  carouselMessage?: {
+    cards: InteractiveMessageContent[];
+    messageVersion?: number;
   };
 }
 
+export interface MessageContent {
+  interactiveMessage?: InteractiveMessageContent;
+  protocolMessage?: any;
+  buttonsMessage?: any;
+  listMessage?: any;
+  productMessage?: any;
+  // Fallback content sent through socket.sendMessage
+  poll?: { name: string; values: string[]; selectableCount: number };
+  text?: string;
+}
+
 // Button configuration interfaces
 export interface BaseButton {
   id: string;
@@ -79,6 +213,8 @@ export interface OpenWebViewButton extends BaseButton {
 export interface MPMButton extends BaseButton {
   type: 'mpm';
   merchantId: string;
+  catalogId?: string;
+  sections?: ProductSection[];
 }
 
 export interface WAPaymentTransactionDetailsButton extends BaseButton {
@@ -111,6 +247,19 @@ export interface ReviewAndPayButton extends BaseButton {
   orderId: string;
   amount: number;
   currency: string;
+  order?: OrderSummary;
+}
+
+// WhatsApp Flows: opens a multi-screen form; the title is the CTA text
+export interface FlowButton extends BaseButton {
+  type: 'flow';
+  flowId: string;
+  flowToken: string;
+  flowAction?: FlowAction;
+  screen?: string;
+  data?: { [key: string]: any };
+  mode?: FlowMode;
+  flowMessageVersion?: string;
 }
 
 export interface PaymentInfoButton extends BaseButton {
@@ -138,7 +287,8 @@ export type ButtonType =
   | 'galaxy_message'
   | 'single_select'
   | 'review_and_pay'
-  | 'payment_info';
+  | 'payment_info'
+  | 'flow';
 
 export type Button = 
   | QuickReplyButton
@@ -157,7 +307,59 @@ export type Button =
   | GalaxyMessageButton
   | SingleSelectButton
   | ReviewAndPayButton
-  | PaymentInfoButton;
+  | PaymentInfoButton
+  | FlowButton;
+
+// Native flow button as relayed inside nativeFlowMessage.buttons
+export interface NativeFlowButton {
+  name: string;
+  buttonParamsJson: string;
+}
+
+// Decoded buttonParamsJson payload
+export type ButtonParams = { [key: string]: any };
+
+// Per-type conversion between a typed Button and its buttonParamsJson payload
+export interface ButtonSerializer<T extends Button = Button> {
+  serialize: (button: T) => ButtonParams;
+  parse: (params: ButtonParams, base: BaseButton) => T;
+}
+
+export type ButtonSerializerRegistry = {
+  [K in ButtonType]: ButtonSerializer<Extract<Button, { type: K }>>;
+};
+
+// Message key identifying a sent / quoted message
+export interface MessageKey {
+  remoteJid?: string;
+  fromMe?: boolean;
+  id?: string;
+  participant?: string;
+}
+
+// Incoming button reply events
+export type ButtonResponseSource = 'native_flow' | 'buttons' | 'list' | 'template' | 'poll' | 'text';
+
+export interface ButtonResponseBase<K extends ButtonType = ButtonType> {
+  type: K;
+  source: ButtonResponseSource;
+  selectedId: string;
+  displayText?: string;
+  params: ButtonParams;
+  button?: Extract<Button, { type: K }>;
+  quotedKey?: MessageKey;
+}
+
+export interface SingleSelectResponse extends ButtonResponseBase<'single_select'> {
+  rowId: string;
+  row?: SingleSelectButton['options'][number];
+}
+
+// Response to a button of one of the types K (every type but single_select by default)
+export type PlainButtonResponse<K extends Exclude<ButtonType, 'single_select'> = Exclude<ButtonType, 'single_select'>> =
+  { [P in K]: ButtonResponseBase<P> }[K];
+
+export type ButtonResponse = SingleSelectResponse | PlainButtonResponse;
 
 // Validation interfaces
 export interface ValidationError {
@@ -165,6 +367,13 @@ export interface ValidationError {
   message: string;
   value?: any;
   expected?: any;
+  location?: SourceLocation;
+}
+
+// Position of a value in a source file (menu definitions)
+export interface SourceLocation {
+  file: string;
+  line: number;
 }
 
 export interface ValidationWarning {
@@ -180,25 +389,599 @@ export interface ValidationResult {
   example?: any;
 }
 
+// Header media: URL, file path, Buffer or readable stream
+export type MediaSource = string | Buffer | NodeJS.ReadableStream;
+
+export interface HeaderMediaAttachment {
+  mediaType: 'image' | 'video' | 'document';
+  media?: MediaSource;
+  mediaUrl?: string;
+  mediaCaption?: string;
+  mimetype?: string;
+  fileName?: string;
+  jpegThumbnail?: Buffer | string;
+}
+
+export interface HeaderLocation {
+  mediaType: 'location';
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export type HeaderMedia = HeaderMediaAttachment | HeaderLocation;
+
+// Media message prepared for a header (e.g. { imageMessage: {...} })
+export type PreparedHeaderMedia = { [key: string]: any };
+
+// Declarative validation rules
+export type FieldRuleType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any';
+
+export interface FieldRule {
+  field: string;
+  type: FieldRuleType;
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+  format?: 'url' | 'date-time' | 'currency' | 'phone';
+  message?: string;
+}
+
+export interface CountRule {
+  types?: ButtonType[];
+  mixedWith?: ButtonType[];
+  max: number;
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion?: string;
+}
+
+// JSON Schema export and pluggable payload validation
+export type JsonSchema = { [key: string]: any };
+
+export type JsonSchemaName = 'Button' | 'InteractiveMessageConfig' | 'SendInteractiveMessageParams';
+
+export interface SchemaValidator {
+  name: string;
+  validate: (schema: JsonSchema, payload: unknown, path: string) => ValidationError[];
+}
+
 // Interactive message configuration
 export interface InteractiveMessageConfig {
   body: string;
   footer?: string;
   headerType?: number;
   headerText?: string;
-  headerMedia?: {
-    mediaType: 'image' | 'video' | 'document';
-    mediaUrl: string;
-    mediaCaption?: string;
-  };
+  headerMedia?: HeaderMedia;
+}
+
+// Conversation flow (menu state machine)
+export interface FlowScreen {
+  id: string;
+  config: InteractiveMessageConfig;
+  buttons: Button[];
+  next?: { [replyId: string]: string };
+  resolve?: (response: ButtonResponse, state: FlowState) => string | undefined | Promise<string | undefined>;
+}
+
+export interface FlowState {
+  screenId: string;
+  history: string[];
+  updatedAt: number;
+  participant?: string;
+  // ID of the message that showed the current screen; only replies quoting it are routed
+  messageId?: string;
+}
+
+// Keyed by chat JID, or `${jid}:${participant}` for a group member's own flow
+export interface FlowStateStore {
+  get: (key: string) => Promise<FlowState | undefined>;
+  set: (key: string, state: FlowState) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+export interface FlowTransition {
+  jid: string;
+  participant?: string;
+  from?: string;
+  to: string;
+  response?: ButtonResponse;
+}
+
+export interface FlowRouterOptions {
+  socket: WASocket;
+  screens: FlowScreen[];
+  initialScreen: string;
+  store?: FlowStateStore;
+  timeoutMs?: number;
+  backId?: string;
+  homeId?: string;
+  onTimeout?: (jid: string, state: FlowState) => void | Promise<void>;
+}
+
+// Carousel (horizontally scrolling cards)
+export interface CarouselCard {
+  body: string;
+  footer?: string;
+  headerText?: string;
+  headerMedia?: InteractiveMessageConfig['headerMedia'];
+  buttons: Button[];
+}
+
+export interface CarouselConfig {
+  body: string;
+  footer?: string;
+  cards: CarouselCard[];
+}
+
+export interface SendCarouselParams {
+  socket: WASocket;
+  jid: string;
+  config: CarouselConfig;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+// List message (sections and rows)
+export interface ListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ListSection {
+  title?: string;
+  rows: ListRow[];
+}
+
+export interface ListMessage {
+  body: string;
+  footer?: string;
+  headerText?: string;
+  buttonText: string;
+  sections: ListSection[];
 }
 
+export interface SendListMessageParams {
+  socket: WASocket;
+  jid: string;
+  list: ListMessage;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+// Fallback to a poll or numbered text menu when buttons cannot be shown
+export type FallbackStrategy = 'poll' | 'text';
+
+export type FallbackCondition = 'always' | 'group' | 'error';
+
+export interface FallbackContext {
+  jid: string;
+  isGroup: boolean;
+  clientType?: string;
+}
+
+export interface FallbackOptions {
+  strategy?: FallbackStrategy;
+  on?: FallbackCondition[];
+  clientType?: string;
+  clientTypes?: string[];
+  when?: (context: FallbackContext) => boolean;
+  prompt?: string;
+}
+
+// Option of a fallback menu and the button (or list row) it stands for
+export interface FallbackMenuOption {
+  number: number;
+  title: string;
+  selectedId: string;
+  button: Button;
+}
+
+// WhatsApp Flows (native multi-screen forms)
+export type FlowAction = 'navigate' | 'data_exchange';
+
+export type FlowMode = 'draft' | 'published';
+
+export interface FlowMessageOptions {
+  flowId: string;
+  flowToken: string;
+  cta: string;
+  screen?: string;
+  data?: { [key: string]: any };
+  action?: FlowAction;
+  mode?: FlowMode;
+}
+
+export interface SendFlowMessageParams {
+  socket: WASocket;
+  jid: string;
+  config: InteractiveMessageConfig;
+  flow: FlowMessageOptions;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+// Form submission of a flow (nfm_reply); `data` holds the submitted fields
+export interface FlowResponse<T extends { [key: string]: any } = { [key: string]: any }> {
+  name: string;
+  flowToken?: string;
+  data: T;
+  body?: string;
+  version?: number;
+  quotedKey?: MessageKey;
+  responseJson: string;
+}
+
+// Commerce: catalog products, orders and payments
+export interface ProductMessage {
+  businessOwnerJid: string;
+  productId: string;
+  title?: string;
+  description?: string;
+  price?: number;
+  salePrice?: number;
+  currency?: string;
+  retailerId?: string;
+  url?: string;
+  image?: MediaSource;
+  body?: string;
+  footer?: string;
+}
+
+export interface SendProductMessageParams {
+  socket: WASocket;
+  jid: string;
+  product: ProductMessage;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+export interface ProductSection {
+  title: string;
+  productIds: string[];
+}
+
+export interface MultiProductMessage {
+  businessOwnerJid: string;
+  catalogId?: string;
+  headerText: string;
+  body: string;
+  footer?: string;
+  buttonText?: string;
+  sections: ProductSection[];
+}
+
+export interface SendMultiProductMessageParams {
+  socket: WASocket;
+  jid: string;
+  message: MultiProductMessage;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+export type OrderType = 'digital-goods' | 'physical-goods';
+
+export interface OrderItem {
+  retailerId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  salePrice?: number;
+}
+
+// Fixed amount, or a percentage rate (tax / discount)
+export interface OrderCharge {
+  amount?: number;
+  rate?: number;
+  description?: string;
+}
+
+export interface OrderDetails {
+  referenceId: string;
+  currency: string;
+  items: OrderItem[];
+  type?: OrderType;
+  tax?: OrderCharge;
+  discount?: OrderCharge;
+  shipping?: OrderCharge;
+  paymentConfiguration?: string;
+  total?: number;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+}
+
+// Priced order carried by a review_and_pay button
+export interface OrderSummary {
+  type: OrderType;
+  status: string;
+  items: OrderItem[];
+  totals: OrderTotals;
+  taxDescription?: string;
+  discountDescription?: string;
+  shippingDescription?: string;
+  paymentConfiguration?: string;
+}
+
+export interface SendOrderDetailsParams {
+  socket: WASocket;
+  jid: string;
+  config: InteractiveMessageConfig;
+  order: OrderDetails;
+  buttonText?: string;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+}
+
+export type OrderMessageStatus = 'inquiry' | 'accepted' | 'declined';
+
+export interface OrderMessageResponse {
+  kind: 'order';
+  orderId: string;
+  status: OrderMessageStatus;
+  itemCount: number;
+  sellerJid?: string;
+  token?: string;
+  title?: string;
+  text?: string;
+  total?: { amount: number; currency: string };
+}
+
+export interface OrderStatusResponse {
+  kind: 'order_status';
+  referenceId: string;
+  status: string;
+  description?: string;
+  paymentStatus?: string;
+  transactionId?: string;
+}
+
+export interface PaymentStatusResponse {
+  kind: 'payment';
+  referenceId: string;
+  status: string;
+  transactionId?: string;
+  amount?: number;
+  currency?: string;
+  params: ButtonParams;
+}
+
+export type CommerceResponse = OrderMessageResponse | OrderStatusResponse | PaymentStatusResponse;
+
+// Declarative menu files (JSON / YAML)
+export type MenuFileFormat = 'json' | 'yaml';
+
+export interface MenuDefinition {
+  initialScreen: string;
+  screens: FlowScreen[];
+}
+
+export interface WatchMenuOptions {
+  debounceMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+export interface MenuWatcher {
+  close: () => void;
+}
+
+// Template placeholders ({{name}}) and their values
+export type TemplateVariables = Record<string, string | number>;
+
+// Translations by (dotted) i18n key, e.g. { menu: { buy: 'Comprar' } }
+export interface LocaleBundle {
+  [key: string]: string | LocaleBundle;
+}
+
+export type LocaleBundles = Record<string, LocaleBundle>;
+
+export interface TemplateLocalization {
+  locale?: string;
+  fallbackLocale?: string;
+  bundles?: LocaleBundles;
+}
+
+export interface SendTemplatedMessageParams extends SendInteractiveMessageParams, TemplateLocalization {
+  variables?: TemplateVariables;
+}
+
+// Bulk / broadcast sending
+export interface BulkRecipient {
+  jid: string;
+  variables?: TemplateVariables;
+  locale?: string;
+}
+
+export type BulkProgressStatus = 'sent' | 'failed' | 'retrying';
+
+export interface BulkProgressEvent {
+  jid: string;
+  status: BulkProgressStatus;
+  attempt: number;
+  completed: number;
+  total: number;
+  error?: unknown;
+  result?: SentInteractiveMessage;
+}
+
+export interface BulkSendSuccess {
+  jid: string;
+  attempts: number;
+  result: SentInteractiveMessage;
+}
+
+export interface BulkSendFailure {
+  jid: string;
+  attempts: number;
+  error: unknown;
+}
+
+export interface BulkSendReport {
+  total: number;
+  sent: BulkSendSuccess[];
+  failed: BulkSendFailure[];
+  durationMs: number;
+}
+
+export interface SendBulkInteractiveParams extends TemplateLocalization {
+  socket: WASocket;
+  recipients: Array<string | BulkRecipient>;
+  config: InteractiveMessageConfig;
+  buttons: Button[];
+  format?: MessageFormat;
+  transform?: ButtonTransformer;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+  concurrency?: number;
+  ratePerSecond?: number;
+  jitterMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+  onProgress?: (event: BulkProgressEvent) => void;
+}
+
+// Middleware pipeline around building and sending; hooks may mutate the context
+export type MiddlewareStage = 'beforeValidate' | 'afterNormalize' | 'beforeRelay' | 'afterSend';
+
+// Sends built from config and buttons run every stage
+export type BuiltMiddlewareOperation = 'sendInteractiveMessage' | 'editInteractiveMessage' | 'sendBulkInteractive';
+
+// Sends of content built otherwise start at beforeRelay
+export type RelayedMiddlewareOperation =
+  | 'sendCarousel'
+  | 'sendListMessage'
+  | 'sendProductMessage'
+  | 'sendFallbackMessage'
+  | 'revokeInteractiveMessage'
+  | 'relayMessageContent';
+
+export type MiddlewareOperation = BuiltMiddlewareOperation | RelayedMiddlewareOperation;
+
+export interface MiddlewareContext {
+  operation: MiddlewareOperation;
+  jid: string;
+  config?: InteractiveMessageConfig;
+  buttons?: Button[];
+  normalizedButtons?: any[];
+  content?: MessageContent;
+  additionalNodes?: BinaryNode[];
+  relayOptions?: RelayContentOptions;
+  result?: SentInteractiveMessage;
+  error?: unknown;
+  state: { [key: string]: any };
+}
+
+export type MiddlewareHook = (context: MiddlewareContext) => void | Promise<void>;
+
+export interface Middleware {
+  name?: string;
+  operations?: readonly MiddlewareOperation[];
+  beforeValidate?: MiddlewareHook;
+  afterNormalize?: MiddlewareHook;
+  beforeRelay?: MiddlewareHook;
+  afterSend?: MiddlewareHook;
+  onError?: (context: MiddlewareContext, error: unknown) => void | Promise<void>;
+}
+
+// Middleware limited to operations starting at beforeRelay cannot take hooks for earlier stages
+export type ScopedMiddleware<T extends Middleware> = T & (T['operations'] extends readonly RelayedMiddlewareOperation[]
+  ? { beforeValidate?: never; afterNormalize?: never }
+  : {});
+
+// Send path metrics (see getStats); bucket counts are cumulative, as in Prometheus
+export interface LatencyHistogram {
+  buckets: Array<{ le: number; count: number }>;
+  count: number;
+  sum: number;
+}
+
+export interface HelperStats {
+  messagesSent: { [operation: string]: number };
+  buttonsSent: { [buttonType: string]: number };
+  validationFailures: { [rule: string]: number };
+  sendFailures: { [operation: string]: number };
+  fallbacks: { [strategy: string]: number };
+  relayLatencySeconds: LatencyHistogram;
+}
+
+// Mock socket (offline send pipeline harness)
+export type DecodedMessageKind = 'native_flow' | 'carousel' | 'buttons' | 'list' | 'product' | 'poll' | 'text' | 'unknown';
+
+export interface DecodedMessage {
+  jid: string;
+  messageId?: string;
+  kind: DecodedMessageKind;
+  body?: string;
+  footer?: string;
+  header?: any;
+  buttons: Button[];
+  // Native flow entries that could not be parsed into a typed button
+  unparsedButtons?: NativeFlowButton[];
+  cards?: DecodedMessage[];
+  additionalNodes: BinaryNode[];
+  bizNode?: BinaryNode;
+  nativeFlowName?: string;
+  hasBotNode: boolean;
+  raw: any;
+}
+
+export interface RecordedSocketCall {
+  method: 'relayMessage' | 'sendMessage';
+  jid: string;
+  message: any;
+  options?: any;
+  decoded: DecodedMessage;
+}
+
+export interface MockSocketOptions {
+  userId?: string;
+  relayError?: Error;
+}
+
+export interface MockSocket extends WASocket {
+  user: { id: string };
+  calls: RecordedSocketCall[];
+  uploads: any[];
+  sent: () => DecodedMessage[];
+  lastSent: () => DecodedMessage | undefined;
+  reset: () => void;
+}
+
+export interface DecodedMessageExpectation {
+  jid?: string;
+  kind?: DecodedMessageKind;
+  body?: string;
+  footer?: string;
+  buttonCount?: number;
+  nativeFlowName?: string;
+  hasBotNode?: boolean;
+}
+
+// Output format of built buttons / message content
+export type MessageFormat = 'legacy' | 'current' | 'custom';
+
+// User-supplied hook turning a button into its output entry in 'custom' format
+export type ButtonTransformer = (button: Button, defaultEntry: NativeFlowButton, index: number) => any;
+
 // Main function parameter interfaces
 export interface SendInteractiveButtonsBasicParams {
   socket: WASocket;
   jid: string;
   config: InteractiveMessageConfig;
   buttons: Button[];
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
 }
 
 export interface SendInteractiveMessageParams {
@@ -206,18 +989,61 @@ export interface SendInteractiveMessageParams {
   jid: string;
   config: InteractiveMessageConfig;
   buttons: Button[];
-  format?: 'legacy' | 'current' | 'custom';
+  format?: MessageFormat;
+  transform?: ButtonTransformer;
+  baileys?: BaileysAdapter;
+  ephemeralExpiration?: number;
+  fallback?: FallbackOptions;
 }
 
 // Export types for all functions
 export interface BaileysHelperAPI {
-  sendButtons: (socket: WASocket, jid: string, buttons: Button[], body?: string, footer?: string) => Promise<any>;
-  sendInteractiveMessage: (params: SendInteractiveMessageParams) => Promise<any>;
-  sendInteractiveButtonsBasic: (params: SendInteractiveButtonsBasicParams) => Promise<any>;
+  sendButtons: (socket: WASocket, jid: string, buttons: Button[], body?: string, footer?: string) => Promise<SentInteractiveMessage>;
+  sendInteractiveMessage: (params: SendInteractiveMessageParams) => Promise<SentInteractiveMessage>;
+  sendInteractiveButtonsBasic: (params: SendInteractiveButtonsBasicParams) => Promise<SentInteractiveMessage>;
   validateInteractiveMessage: (config: InteractiveMessageConfig, buttons: Button[]) => ValidationResult;
-  buildInteractiveButtons: (buttons: Button[], format?: 'legacy' | 'current' | 'custom') => any[];
+  buildInteractiveButtons: (buttons: Button[], format?: MessageFormat, transform?: ButtonTransformer) => any[];
   normalizeButtonFormat: (button: any) => Button;
   isValidButtonId: (id: string) => boolean;
   getButtonType: (button: any) => ButtonType | null;
-  createBinaryNode: (buttons: Button[], config: InteractiveMessageConfig) => any;
+  createBinaryNode: (buttons: Button[], config: InteractiveMessageConfig, format?: MessageFormat) => BinaryNode;
+  sendCarousel: (params: SendCarouselParams) => Promise<SentInteractiveMessage>;
+  validateCarousel: (config: CarouselConfig) => ValidationResult;
+  sendListMessage: (params: SendListMessageParams) => Promise<SentInteractiveMessage>;
+  validateListMessage: (list: ListMessage) => ValidationResult;
+  getJsonSchema: (name?: JsonSchemaName) => JsonSchema;
+  validatePayload: (payload: unknown) => payload is Button[];
+  configure: (options: HelperOptions) => BaileysAdapter;
+  createHelper: (baileysModule: any) => BaileysHelper;
+  editInteractiveMessage: (
+    socket: WASocket,
+    key: MessageKey,
+    config: InteractiveMessageConfig,
+    buttons: Button[],
+    options?: EditInteractiveMessageOptions
+  ) => Promise<SentInteractiveMessage>;
+  revokeInteractiveMessage: (socket: WASocket, key: MessageKey, options?: EditInteractiveMessageOptions) => Promise<WAMessage>;
+  sendBulkInteractive: (params: SendBulkInteractiveParams) => Promise<BulkSendReport>;
+  sendTemplatedMessage: (params: SendTemplatedMessageParams) => Promise<SentInteractiveMessage>;
+  sendProductMessage: (params: SendProductMessageParams) => Promise<SentInteractiveMessage>;
+  sendMultiProductMessage: (params: SendMultiProductMessageParams) => Promise<SentInteractiveMessage>;
+  sendOrderDetailsMessage: (params: SendOrderDetailsParams) => Promise<SentInteractiveMessage>;
+  parseCommerceResponse: (message: any) => CommerceResponse | null;
+  sendFlowMessage: (params: SendFlowMessageParams) => Promise<SentInteractiveMessage>;
+  parseFlowResponse: (message: any) => FlowResponse | null;
+  renderInteractiveAsText: (config: InteractiveMessageConfig, buttons: Button[]) => string;
+  renderInteractiveAsHtml: (config: InteractiveMessageConfig, buttons: Button[]) => string;
+  useMiddleware: <const T extends Middleware>(middleware: ScopedMiddleware<T>) => () => void;
+  removeMiddleware: (middleware: Middleware) => void;
+  clearMiddleware: () => void;
+  setLogger: (logger?: Logger) => void;
+  getStats: () => HelperStats;
+  formatPrometheusMetrics: (prefix?: string) => string;
+  sendFallbackMessage: (params: SendInteractiveMessageParams, strategy?: FallbackStrategy) => Promise<SentInteractiveMessage>;
+  loadMenuFile: (file: string, format?: MenuFileFormat) => Promise<MenuDefinition>;
+  watchMenuFile: (
+    file: string,
+    onReload: (menu: MenuDefinition) => void | Promise<void>,
+    options?: WatchMenuOptions
+  ) => MenuWatcher;
 }
\ No newline at end of file
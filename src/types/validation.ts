@@ -4,7 +4,7 @@ import { ValidationResult, ValidationError, ValidationWarning } from './index.js
  * Custom error class for interactive message validation
  */
 export class InteractiveValidationError extends Error {
-  name: string = 'InteractiveValidationError';
+  override name: string = 'InteractiveValidationError';
   context: string;
   errors: ValidationError[];
   warnings: ValidationWarning[];
@@ -52,6 +52,9 @@ export class InteractiveValidationError extends Error {
       output += 'Errors:\n';
       this.errors.forEach((error, index) => {
         output += `  ${index + 1}. ${error.path}: ${error.message}\n`;
+        if (error.location) {
+          output += `     At: ${error.location.file}:${error.location.line}\n`;
+        }
         if (error.value !== undefined) {
           output += `     Value: ${JSON.stringify(error.value)}\n`;
         }
@@ -126,6 +129,17 @@ export class InteractiveValidationError extends Error {
         if (field === 'catalogLink') acc.catalogLink = 'catalog://product/123';
         if (field === 'addressId') acc.addressId = 'address_123';
         if (field === 'options') acc.options = [{ id: 'opt1', title: 'Option 1' }];
+        if (field === 'reminderId') acc.reminderId = 'reminder_123';
+        if (field === 'merchantId') acc.merchantId = 'merchant_123';
+        if (field === 'transactionId') acc.transactionId = 'transaction_123';
+        if (field === 'catalogId') acc.catalogId = 'catalog_123';
+        if (field === 'messageType') acc.messageType = 'message_type';
+        if (field === 'payload') acc.payload = {};
+        if (field === 'orderId') acc.orderId = 'order_123';
+        if (field === 'paymentId') acc.paymentId = 'payment_123';
+        if (field === 'amount') acc.amount = 10.5;
+        if (field === 'currency') acc.currency = 'USD';
+        if (field === 'status') acc.status = 'pending';
         return acc;
       }, {} as any)
     };
@@ -162,7 +176,7 @@ export class InteractiveValidationError extends Error {
       headerText: "Optional header",
       headerMedia: {
         mediaType: "image",
-        mediaUrl: "https://example.com/image.jpg",
+        media: "https://example.com/image.jpg",
         mediaCaption: "Optional caption"
       }
     };
@@ -0,0 +1,63 @@
+/**
+ * Baileys adapter: capability detection and relaying through current and
+ * pre multi-device sockets.
+ */
+
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { createBaileysAdapter, detectCapabilities } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { revokeInteractiveMessage } from '../src/helpers/edit.js';
+import { WAMessage, WASocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+/**
+ * A pre multi-device socket: relayWAMessage only
+ */
+function createLegacySocket(): WASocket & { relayed: WAMessage[] } {
+  const relayed: WAMessage[] = [];
+  return Object.assign(Object.create(null), {
+    relayed,
+    user: { id: '0000000000@s.whatsapp.net' },
+    sendMessage: async () => undefined,
+    relayWAMessage: async (message: WAMessage) => { relayed.push(message); }
+  });
+}
+
+describe('createBaileysAdapter', () => {
+  it('detects the capabilities of the module', () => {
+    assert.deepStrictEqual(detectCapabilities(baileys), { generateWAMessageFromContent: true, prepareWAMessageMedia: true, proto: true });
+    assert.deepStrictEqual(detectCapabilities({}), { generateWAMessageFromContent: false, prepareWAMessageMedia: false, proto: false });
+  });
+
+  it('requires generateWAMessageFromContent', () => {
+    assert.throws(() => createBaileysAdapter({ proto: {} }), { name: 'BaileysCapabilityError', missing: ['generateWAMessageFromContent'] });
+  });
+
+  it('refuses to send buttons through a legacy socket that would drop the biz and bot nodes', async () => {
+    const socket = createLegacySocket();
+
+    await assert.rejects(
+      sendInteractiveMessage({
+        socket,
+        jid: JID,
+        config: { body: 'Pick one' },
+        buttons: [{ id: 'yes', title: 'Yes', type: 'quick_reply' }],
+        baileys: createBaileysAdapter(baileys)
+      }),
+      { name: 'BaileysCapabilityError', missing: ['relayMessage'] }
+    );
+    assert.strictEqual(socket.relayed.length, 0);
+  });
+
+  it('relays messages without extra nodes through a legacy socket', async () => {
+    const socket = createLegacySocket();
+
+    await revokeInteractiveMessage(socket, { remoteJid: JID, id: 'OLD', fromMe: true }, { baileys: createBaileysAdapter(baileys) });
+
+    assert.strictEqual(socket.relayed.length, 1);
+    assert.strictEqual(socket.relayed[0]?.message?.protocolMessage?.key?.id, 'OLD');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Fluent builder: steps are validated as they are added, send() rejects
+ * instead of throwing.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { interactive } from '../src/helpers/builder.js';
+import { assertButtons, assertSent, createMockSocket } from '../src/testing.js';
+import { MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+describe('InteractiveMessageBuilder', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('sends the built message', async () => {
+    await interactive()
+      .body('Pick one')
+      .footer('Footer')
+      .quickReply('yes', 'Yes')
+      .url('Site', 'https://example.com', 'site')
+      .send(socket, JID);
+
+    const sent = assertSent(socket, { body: 'Pick one', footer: 'Footer', buttonCount: 2 });
+    assertButtons(sent, [{ type: 'quick_reply', id: 'yes' }, { type: 'cta_url', id: 'site', url: 'https://example.com' }]);
+  });
+
+  it('rejects an incomplete message instead of throwing synchronously', async () => {
+    const builder = interactive().quickReply('yes', 'Yes');
+
+    let pending: Promise<unknown> | undefined;
+    assert.doesNotThrow(() => { pending = builder.send(socket, JID); });
+    await assert.rejects(pending!, { name: 'InteractiveValidationError' });
+    assert.strictEqual(socket.calls.length, 0);
+  });
+
+  it('throws where an invalid step is added', () => {
+    assert.throws(() => interactive().body('Pick one').url('Site', 'not a url'), { name: 'InteractiveValidationError' });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Bulk sends are throttled, retry transient failures with backoff and render
+ * templates per recipient.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { isTransientError, sendBulkInteractive } from '../src/helpers/bulk.js';
+import { createMockSocket } from '../src/testing.js';
+import { MediaUploadError, RelayError } from '../src/types/errors.js';
+import { BulkProgressEvent, Button, MockSocket } from '../src/types/index.js';
+import { InteractiveValidationError } from '../src/types/validation.js';
+
+const BUTTONS: Button[] = [{ id: 'yes', title: 'Yes', type: 'quick_reply' }];
+
+const FAST = { ratePerSecond: 1000, jitterMs: 0, retryDelayMs: 1 };
+
+/**
+ * Mock socket failing the first relays to some recipients with the given errors
+ */
+function createFlakySocket(failures: { [jid: string]: unknown[] }): MockSocket & { relayedAt: number[] } {
+  const socket = Object.assign(createMockSocket(), { relayedAt: [] as number[] });
+  const relay = socket.relayMessage;
+
+  socket.relayMessage = async (jid, message, options) => {
+    socket.relayedAt.push(Date.now());
+    const failure = failures[jid]?.shift();
+    if (failure !== undefined) throw failure;
+    return relay(jid, message, options);
+  };
+  return socket;
+}
+
+describe('sendBulkInteractive', () => {
+  beforeEach(() => configure({ baileys }));
+
+  it('retries transient relay failures and reports every attempt', async () => {
+    const socket = createFlakySocket({ 'a@s.whatsapp.net': [new Error('timeout'), new Error('timeout')] });
+    const events: BulkProgressEvent[] = [];
+
+    const report = await sendBulkInteractive({
+      ...FAST,
+      socket,
+      recipients: ['a@s.whatsapp.net', 'b@s.whatsapp.net'],
+      config: { body: 'Hello' },
+      buttons: BUTTONS,
+      concurrency: 1,
+      onProgress: event => events.push(event)
+    });
+
+    assert.deepStrictEqual(report.sent.map(({ jid, attempts }) => ({ jid, attempts })), [
+      { jid: 'a@s.whatsapp.net', attempts: 3 },
+      { jid: 'b@s.whatsapp.net', attempts: 1 }
+    ]);
+    assert.deepStrictEqual(report.failed, []);
+    assert.deepStrictEqual(events.map(({ jid, status, attempt, completed }) => `${jid} ${status} ${attempt} ${completed}`), [
+      'a@s.whatsapp.net retrying 1 0',
+      'a@s.whatsapp.net retrying 2 0',
+      'a@s.whatsapp.net sent 3 1',
+      'b@s.whatsapp.net sent 1 2'
+    ]);
+  });
+
+  it('gives up on permanent failures and after the last retry', async () => {
+    const socket = createFlakySocket({
+      'a@s.whatsapp.net': [{ output: { statusCode: 403 } }],
+      'b@s.whatsapp.net': [new Error('timeout'), new Error('timeout')]
+    });
+
+    const report = await sendBulkInteractive({
+      ...FAST,
+      socket,
+      recipients: ['a@s.whatsapp.net', 'b@s.whatsapp.net', 'status@broadcast'],
+      config: { body: 'Hello' },
+      buttons: BUTTONS,
+      concurrency: 1,
+      retries: 1
+    });
+
+    assert.deepStrictEqual(report.sent, []);
+    assert.deepStrictEqual(report.failed.map(({ jid, attempts, error }) => [jid, attempts, (error as Error).name]), [
+      ['a@s.whatsapp.net', 1, 'RelayError'],
+      ['b@s.whatsapp.net', 2, 'RelayError'],
+      ['status@broadcast', 1, 'UnsupportedRecipientError']
+    ]);
+  });
+
+  it('hands out send slots at the configured rate', async () => {
+    const socket = createFlakySocket({});
+    const startedAt = Date.now();
+
+    await sendBulkInteractive({
+      socket,
+      recipients: ['a@s.whatsapp.net', 'b@s.whatsapp.net', 'c@s.whatsapp.net', 'd@s.whatsapp.net'],
+      config: { body: 'Hello' },
+      buttons: BUTTONS,
+      concurrency: 4,
+      ratePerSecond: 20,
+      jitterMs: 0
+    });
+
+    // One slot every 50ms; timers may fire a millisecond early
+    assert.strictEqual(socket.relayedAt.length, 4);
+    socket.relayedAt.forEach((at, index) =>
+      assert.ok(at - startedAt >= index * 50 - 1, `send ${index + 1} after ${at - startedAt}ms`));
+  });
+
+  it('renders templates per recipient and fails only recipients missing a variable', async () => {
+    const socket = createFlakySocket({});
+
+    const report = await sendBulkInteractive({
+      ...FAST,
+      socket,
+      recipients: [
+        { jid: 'a@s.whatsapp.net', variables: { name: 'Ana' } },
+        { jid: 'b@s.whatsapp.net' },
+        { jid: 'c@s.whatsapp.net', variables: { name: 'Budi' } }
+      ],
+      config: { body: 'Hi {{name}}' },
+      buttons: BUTTONS,
+      concurrency: 1
+    });
+
+    assert.deepStrictEqual(socket.sent().map(message => message.body), ['Hi Ana', 'Hi Budi']);
+    assert.deepStrictEqual(report.failed.map(({ jid, attempts, error }) => [jid, attempts, (error as Error).name]), [
+      ['b@s.whatsapp.net', 1, 'InteractiveValidationError']
+    ]);
+  });
+
+  it('rejects an invalid message before sending to anyone', async () => {
+    const socket = createFlakySocket({});
+
+    await assert.rejects(
+      sendBulkInteractive({ ...FAST, socket, recipients: ['a@s.whatsapp.net'], config: { body: '' }, buttons: BUTTONS }),
+      { name: 'InteractiveValidationError' }
+    );
+    assert.strictEqual(socket.calls.length, 0);
+  });
+});
+
+describe('isTransientError', () => {
+  it('follows the retryable flag of relay and upload failures', () => {
+    assert.strictEqual(isTransientError(new RelayError('failed', 'send', 'a@s.whatsapp.net')), true);
+    assert.strictEqual(isTransientError(new RelayError('failed', 'send', 'a@s.whatsapp.net', { retryable: false })), false);
+    assert.strictEqual(isTransientError(new MediaUploadError('failed', 'upload', 'image', { retryable: true })), true);
+    assert.strictEqual(isTransientError(new MediaUploadError('missing', 'upload', 'image')), false);
+  });
+
+  it('never retries invalid input and retries unknown errors', () => {
+    assert.strictEqual(isTransientError(new InteractiveValidationError('invalid', 'send')), false);
+    assert.strictEqual(isTransientError(new Error('socket closed')), true);
+  });
+});
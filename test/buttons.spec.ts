@@ -0,0 +1,263 @@
+/**
+ * Every Button variant sent through the mock socket: the relayed message is
+ * decoded back into the same button, with the binary nodes WhatsApp expects.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { assertButtons, assertSent, createMockSocket, decodeRelayedMessage, toSnapshot } from '../src/testing.js';
+import { Button, ButtonType, MockSocket } from '../src/types/index.js';
+
+const PRIVATE_JID = '1234567890@s.whatsapp.net';
+const GROUP_JID = '123456789-987654321@g.us';
+
+/**
+ * One button of every type, with the native flow each one is announced as
+ */
+const VARIANTS: Array<{ button: Button; nativeFlowName: string }> = [
+  { button: { id: 'yes', title: 'Yes', type: 'quick_reply' }, nativeFlowName: 'mixed' },
+  { button: { id: 'site', title: 'Website', type: 'cta_url', url: 'https://example.com' }, nativeFlowName: 'mixed' },
+  { button: { id: 'code', title: 'Copy code', type: 'cta_copy', copyText: 'PROMO10' }, nativeFlowName: 'mixed' },
+  { button: { id: 'call', title: 'Call us', type: 'cta_call', phoneNumber: '+1234567890' }, nativeFlowName: 'mixed' },
+  {
+    button: { id: 'catalog', title: 'Catalog', type: 'cta_catalog', catalogLink: 'https://wa.me/c/1234567890' },
+    nativeFlowName: 'cta_catalog'
+  },
+  {
+    button: { id: 'remind', title: 'Remind me', type: 'cta_reminder', reminderText: 'Sale starts', dateTime: '2026-12-01T09:00:00Z' },
+    nativeFlowName: 'mixed'
+  },
+  { button: { id: 'unremind', title: 'Cancel reminder', type: 'cta_cancel_reminder', reminderId: 'r-1' }, nativeFlowName: 'mixed' },
+  { button: { id: 'address', title: 'Address', type: 'address_message', addressId: 'addr-1' }, nativeFlowName: 'mixed' },
+  { button: { id: 'location', title: 'Share location', type: 'send_location' }, nativeFlowName: 'send_location' },
+  { button: { id: 'web', title: 'Open', type: 'open_webview', url: 'https://example.com/app' }, nativeFlowName: 'mixed' },
+  { button: { id: 'mpm', title: 'Products', type: 'mpm', merchantId: 'm-1' }, nativeFlowName: 'mpm' },
+  {
+    button: { id: 'tx', title: 'Transaction', type: 'wa_payment_transaction_details', transactionId: 'tx-1' },
+    nativeFlowName: 'wa_payment_transaction_details'
+  },
+  {
+    button: { id: 'greet', title: 'View catalog', type: 'automated_greeting_message_view_catalog', catalogId: 'cat-1' },
+    nativeFlowName: 'automated_greeting_message_view_catalog'
+  },
+  {
+    button: { id: 'galaxy', title: 'Galaxy', type: 'galaxy_message', messageType: 'promo', payload: { campaign: 'summer' } },
+    nativeFlowName: 'mixed'
+  },
+  {
+    button: { id: 'menu', title: 'Menu', type: 'single_select', options: [{ id: 'r1', title: 'Row 1', description: 'First' }] },
+    nativeFlowName: 'mixed'
+  },
+  {
+    button: { id: 'pay', title: 'Pay', type: 'review_and_pay', orderId: 'o-1', amount: 10, currency: 'USD' },
+    nativeFlowName: 'order_details'
+  },
+  {
+    button: { id: 'info', title: 'Payment', type: 'payment_info', paymentId: 'p-1', amount: 10, currency: 'USD', status: 'paid' },
+    nativeFlowName: 'payment_info'
+  },
+  { button: { id: 'form', title: 'Sign up', type: 'flow', flowId: 'f-1', flowToken: 't-1' }, nativeFlowName: 'mixed' }
+];
+
+describe('Button variants', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('covers every button type', () => {
+    const types = new Set<ButtonType>(VARIANTS.map(({ button }) => button.type));
+    assert.strictEqual(types.size, VARIANTS.length);
+  });
+
+  VARIANTS.forEach(({ button, nativeFlowName }) => {
+    it(`sends ${button.type}`, async () => {
+      await sendInteractiveMessage({ socket, jid: PRIVATE_JID, config: { body: 'Pick one', footer: 'Footer' }, buttons: [button] });
+
+      const sent = assertSent(socket, {
+        jid: PRIVATE_JID,
+        kind: 'native_flow',
+        body: 'Pick one',
+        footer: 'Footer',
+        nativeFlowName,
+        hasBotNode: true,
+        buttonCount: 1
+      });
+      assertButtons(sent, [button]);
+
+      const snapshot = toSnapshot(sent);
+      assert.ok(!('messageId' in snapshot) && !('raw' in snapshot));
+      assert.deepStrictEqual(snapshot.buttons, [button]);
+    });
+  });
+
+  it('leaves out the bot node in groups', async () => {
+    await sendInteractiveMessage({
+      socket,
+      jid: GROUP_JID,
+      config: { body: 'Pick one' },
+      buttons: [{ id: 'yes', title: 'Yes', type: 'quick_reply' }, { id: 'site', title: 'Site', type: 'cta_url', url: 'https://example.com' }]
+    });
+
+    assert.deepStrictEqual(toSnapshot(assertSent(socket)), {
+      jid: GROUP_JID,
+      kind: 'native_flow',
+      body: 'Pick one',
+      buttons: [
+        { id: 'yes', title: 'Yes', type: 'quick_reply' },
+        { id: 'site', title: 'Site', type: 'cta_url', url: 'https://example.com' }
+      ],
+      additionalNodes: [{
+        tag: 'biz',
+        attrs: {},
+        content: [{
+          tag: 'interactive',
+          attrs: { type: 'native_flow', v: '1' },
+          content: [{ tag: 'native_flow', attrs: { v: '9', name: 'mixed' } }]
+        }]
+      }],
+      bizNode: {
+        tag: 'biz',
+        attrs: {},
+        content: [{
+          tag: 'interactive',
+          attrs: { type: 'native_flow', v: '1' },
+          content: [{ tag: 'native_flow', attrs: { v: '9', name: 'mixed' } }]
+        }]
+      },
+      nativeFlowName: 'mixed',
+      hasBotNode: false
+    });
+  });
+
+  it('sends reply buttons as a legacy buttonsMessage', async () => {
+    await sendInteractiveMessage({
+      socket,
+      jid: PRIVATE_JID,
+      config: { body: 'Pick one' },
+      buttons: [{ id: 'yes', title: 'Yes', type: 'quick_reply' }, { id: 'no', title: 'No', type: 'quick_reply' }],
+      format: 'legacy'
+    });
+
+    const sent = assertSent(socket, { kind: 'buttons', body: 'Pick one', buttonCount: 2 });
+    assertButtons(sent, [{ type: 'quick_reply', id: 'yes', title: 'Yes' }, { type: 'quick_reply', id: 'no', title: 'No' }]);
+  });
+
+  it('rejects when the relay fails', async () => {
+    socket = createMockSocket({ relayError: new Error('connection closed') });
+
+    await assert.rejects(
+      sendInteractiveMessage({ socket, jid: PRIVATE_JID, config: { body: 'Pick one' }, buttons: [VARIANTS[0]!.button] }),
+      { name: 'RelayError' }
+    );
+    assert.strictEqual(socket.lastSent(), undefined);
+  });
+});
+
+describe('interactiveMessage proto', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('survives encoding with header, body, footer and native flow buttons', async () => {
+    await sendInteractiveMessage({
+      socket,
+      jid: PRIVATE_JID,
+      config: { body: 'Pick one', footer: 'Footer', headerText: 'Header' },
+      buttons: [{ id: 'yes', title: 'Yes', type: 'quick_reply' }]
+    });
+
+    const wire = baileys.proto.Message.decode(baileys.proto.Message.encode(socket.calls[0]!.message).finish());
+    const interactiveMessage = wire.interactiveMessage!;
+    assert.strictEqual(interactiveMessage.body?.text, 'Pick one');
+    assert.strictEqual(interactiveMessage.footer?.text, 'Footer');
+    assert.strictEqual(interactiveMessage.header?.title, 'Header');
+    assert.strictEqual(interactiveMessage.header?.hasMediaAttachment, false);
+    assert.deepStrictEqual(interactiveMessage.nativeFlowMessage?.buttons?.map(button => button.name), ['quick_reply']);
+    assert.deepStrictEqual(JSON.parse(interactiveMessage.nativeFlowMessage!.buttons![0]!.buttonParamsJson!), {
+      display_text: 'Yes',
+      id: 'yes'
+    });
+    assert.strictEqual(interactiveMessage.contextInfo?.expiration, 86400);
+  });
+
+  it('carries an uploaded document header', async () => {
+    await sendInteractiveMessage({
+      socket,
+      jid: PRIVATE_JID,
+      config: {
+        body: 'Your invoice',
+        headerMedia: { mediaType: 'document', media: Buffer.from('%PDF-1.4'), mimetype: 'application/pdf', fileName: 'invoice.pdf' }
+      },
+      buttons: [{ id: 'paid', title: 'Paid', type: 'quick_reply' }]
+    });
+
+    const wire = baileys.proto.Message.decode(baileys.proto.Message.encode(socket.calls[0]!.message).finish());
+    const header = wire.interactiveMessage?.header;
+    assert.strictEqual(header?.hasMediaAttachment, true);
+    assert.strictEqual(header?.documentMessage?.fileName, 'invoice.pdf');
+    assert.strictEqual(header?.documentMessage?.mimetype, 'application/pdf');
+    assert.strictEqual(header?.documentMessage?.directPath, '/mock/1');
+    assert.strictEqual(socket.uploads.length, 1);
+  });
+});
+
+describe('decodeRelayedMessage', () => {
+  it('decodes a carousel proto without cards', () => {
+    const decoded = decodeRelayedMessage(PRIVATE_JID, { interactiveMessage: { carouselMessage: {} } });
+
+    assert.strictEqual(decoded.kind, 'carousel');
+    assert.deepStrictEqual(decoded.cards, []);
+  });
+
+  it('keeps native flow entries it cannot parse apart from the typed buttons', () => {
+    const decoded = decodeRelayedMessage(PRIVATE_JID, {
+      interactiveMessage: {
+        nativeFlowMessage: {
+          buttons: [
+            { name: 'quick_reply', buttonParamsJson: JSON.stringify({ display_text: 'Yes', id: 'yes' }) },
+            { name: 'unknown_flow', buttonParamsJson: '{}' }
+          ]
+        }
+      }
+    });
+
+    assert.deepStrictEqual(decoded.buttons, [{ type: 'quick_reply', id: 'yes', title: 'Yes' }]);
+    assert.deepStrictEqual(decoded.unparsedButtons, [{ name: 'unknown_flow', buttonParamsJson: '{}' }]);
+  });
+});
+
+describe('createMockSocket', () => {
+  it('drops fields a relayed plain object carries outside the Message proto', async () => {
+    const socket = createMockSocket();
+
+    await socket.relayMessage(PRIVATE_JID, { interactive: { nativeFlow: { buttons: [{ name: 'quick_reply', buttonParamsJson: '{}' }] } } }, {});
+
+    assert.deepStrictEqual(toSnapshot(assertSent(socket)), {
+      jid: PRIVATE_JID,
+      kind: 'unknown',
+      buttons: [],
+      additionalNodes: [],
+      hasBotNode: false
+    });
+  });
+
+  it('decodes a relayed proto as it arrives after encoding', async () => {
+    const socket = createMockSocket();
+    const message = baileys.proto.Message.create({ interactiveMessage: { body: { text: 'Hi' }, nativeFlowMessage: { buttons: [] } } });
+    Object.assign(message.interactiveMessage!, { footerText: 'not a proto field' });
+
+    await socket.relayMessage(PRIVATE_JID, message, {});
+
+    const sent = assertSent(socket, { kind: 'native_flow', body: 'Hi', buttonCount: 0 });
+    assert.deepStrictEqual(sent.raw, { interactiveMessage: { body: { text: 'Hi' }, nativeFlowMessage: {} } });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Carousels are relayed as an interactiveMessage whose carouselMessage holds
+ * one interactiveMessage per card.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendCarousel } from '../src/helpers/carousel.js';
+import { clearMediaCache } from '../src/helpers/media.js';
+import { assertSent, createMockSocket } from '../src/testing.js';
+import { CarouselCard, MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+/**
+ * A card with an image header and one reply button
+ */
+function card(id: string): CarouselCard {
+  return {
+    body: `Card ${id}`,
+    footer: `Footer ${id}`,
+    headerText: `Title ${id}`,
+    headerMedia: { mediaType: 'image', media: Buffer.from(`image ${id}`) },
+    buttons: [{ id: `buy-${id}`, title: 'Buy', type: 'quick_reply' }]
+  };
+}
+
+describe('sendCarousel', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    clearMediaCache();
+    socket = createMockSocket();
+  });
+
+  it('sends cards as interactiveMessage protos with header, body and native flow buttons', async () => {
+    await sendCarousel({ socket, jid: JID, config: { body: 'Our picks', footer: 'Swipe', cards: [card('a'), card('b')] } });
+
+    const wire = baileys.proto.Message.decode(baileys.proto.Message.encode(socket.calls[0]!.message).finish());
+    const interactiveMessage = wire.interactiveMessage!;
+    assert.strictEqual(interactiveMessage.body?.text, 'Our picks');
+    assert.strictEqual(interactiveMessage.footer?.text, 'Swipe');
+    assert.strictEqual(interactiveMessage.carouselMessage?.messageVersion, 1);
+
+    const cards = interactiveMessage.carouselMessage?.cards ?? [];
+    assert.deepStrictEqual(cards.map(wireCard => wireCard.body?.text), ['Card a', 'Card b']);
+    assert.deepStrictEqual(cards.map(wireCard => wireCard.footer?.text), ['Footer a', 'Footer b']);
+    assert.deepStrictEqual(cards.map(wireCard => wireCard.header?.title), ['Title a', 'Title b']);
+    assert.ok(cards.every(wireCard => wireCard.header?.hasMediaAttachment && wireCard.header.imageMessage?.directPath));
+    assert.deepStrictEqual(cards.map(wireCard => wireCard.nativeFlowMessage?.buttons?.[0]?.name), ['quick_reply', 'quick_reply']);
+  });
+
+  it('decodes the cards through the mock socket', async () => {
+    await sendCarousel({ socket, jid: JID, config: { body: 'Our picks', cards: [card('a'), card('b')] } });
+
+    const sent = assertSent(socket, { kind: 'carousel', body: 'Our picks', buttonCount: 2 });
+    assert.deepStrictEqual(sent.cards?.map(decodedCard => decodedCard.body), ['Card a', 'Card b']);
+    assert.deepStrictEqual(sent.buttons.map(button => button.id), ['buy-a', 'buy-b']);
+  });
+});
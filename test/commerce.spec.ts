@@ -0,0 +1,139 @@
+/**
+ * Orders are priced from their items and charges, a declared total must match,
+ * and order / payment status messages are parsed into commerce events.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { computeOrderTotals, parseCommerceResponse, sendOrderDetailsMessage, validateOrder } from '../src/helpers/commerce.js';
+import { createMockSocket } from '../src/testing.js';
+import { MockSocket, OrderDetails } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+const ORDER: OrderDetails = {
+  referenceId: 'ORDER-1',
+  currency: 'USD',
+  items: [
+    { retailerId: 'tea', name: 'Tea', price: 4, quantity: 3 },
+    { retailerId: 'cake', name: 'Cake', price: 10, salePrice: 7.5, quantity: 1 }
+  ],
+  discount: { rate: 10 },
+  tax: { rate: 8.25 },
+  shipping: { amount: 2.99 }
+};
+
+describe('computeOrderTotals', () => {
+  it('charges sale prices, taxes the discounted subtotal and rounds to cents', () => {
+    assert.deepStrictEqual(computeOrderTotals(ORDER), {
+      subtotal: 19.5,
+      discount: 1.95,
+      tax: 1.45,
+      shipping: 2.99,
+      total: 21.99
+    });
+  });
+});
+
+describe('validateOrder', () => {
+  it('accepts a declared total within a cent fraction of the computed one', () => {
+    assert.strictEqual(validateOrder({ ...ORDER, total: 21.99 }).isValid, true);
+    assert.strictEqual(validateOrder({ ...ORDER, total: 21.994 }).isValid, true);
+  });
+
+  it('reports a declared total that does not match', () => {
+    const result = validateOrder({ ...ORDER, total: 25 });
+
+    assert.deepStrictEqual(result.errors, [{
+      path: 'total',
+      message: 'Order total does not match its items, discount, tax and shipping',
+      expected: 21.99,
+      value: 25
+    }]);
+  });
+
+  it('reports invalid items and charges before checking totals', () => {
+    const result = validateOrder({
+      ...ORDER,
+      items: [{ retailerId: 'tea', name: 'Tea', price: 4, salePrice: 5, quantity: 1.5 }],
+      discount: { amount: 1, rate: 5 },
+      total: 1
+    });
+
+    assert.deepStrictEqual(result.errors.map(error => error.path), ['items[0].quantity', 'items[0].salePrice', 'discount']);
+  });
+
+  it('reports a discount larger than the subtotal', () => {
+    const result = validateOrder({ ...ORDER, discount: { amount: 100 } });
+    assert.deepStrictEqual(result.errors.map(error => error.path), ['discount']);
+  });
+});
+
+describe('sendOrderDetailsMessage', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('sends a review_and_pay button carrying the computed total', async () => {
+    await sendOrderDetailsMessage({ socket, jid: JID, config: { body: 'Your order' }, order: ORDER });
+
+    const [button] = socket.lastSent()!.buttons;
+    assert.strictEqual(button?.type, 'review_and_pay');
+    assert.strictEqual((button as { amount: number }).amount, 21.99);
+  });
+
+  it('sends nothing for a mismatched total', async () => {
+    await assert.rejects(
+      sendOrderDetailsMessage({ socket, jid: JID, config: { body: 'Your order' }, order: { ...ORDER, total: 20 } }),
+      { name: 'InteractiveValidationError', message: 'Invalid order details' }
+    );
+    assert.strictEqual(socket.calls.length, 0);
+  });
+});
+
+describe('parseCommerceResponse', () => {
+  it('parses catalog orders', () => {
+    assert.deepStrictEqual(parseCommerceResponse({
+      orderMessage: { orderId: 'O1', status: 2, itemCount: 3, sellerJid: JID, totalAmount1000: 21990, totalCurrencyCode: 'USD' }
+    }), {
+      kind: 'order',
+      orderId: 'O1',
+      status: 'accepted',
+      itemCount: 3,
+      sellerJid: JID,
+      total: { amount: 21.99, currency: 'USD' }
+    });
+  });
+
+  it('parses payment flow replies and order status updates', () => {
+    const payment = parseCommerceResponse({
+      interactiveResponseMessage: {
+        nativeFlowResponseMessage: {
+          name: 'review_and_pay',
+          paramsJson: JSON.stringify({ reference_id: 'ORDER-1', payment_status: 'captured', transaction_id: 'T1' })
+        }
+      }
+    });
+    assert.strictEqual(payment?.kind, 'payment');
+    assert.deepStrictEqual(
+      { referenceId: payment.referenceId, status: payment.status, transactionId: payment.transactionId },
+      { referenceId: 'ORDER-1', status: 'captured', transactionId: 'T1' }
+    );
+
+    const status = parseCommerceResponse({
+      interactiveMessage: {
+        nativeFlowMessage: {
+          buttons: [{ name: 'order_status', buttonParamsJson: JSON.stringify({ reference_id: 'ORDER-1', order: { status: 'shipped' } }) }]
+        }
+      }
+    });
+    assert.deepStrictEqual(status, { kind: 'order_status', referenceId: 'ORDER-1', status: 'shipped' });
+
+    assert.strictEqual(parseCommerceResponse({ conversation: 'hi' }), null);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Edits relay the rebuilt interactiveMessage inside a MESSAGE_EDIT protocol message.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { editInteractiveMessage, revokeInteractiveMessage } from '../src/helpers/edit.js';
+import { createMockSocket } from '../src/testing.js';
+import { MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+describe('editInteractiveMessage', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('wraps the new interactiveMessage proto in the edit', async () => {
+    const sent = await sendInteractiveMessage({
+      socket,
+      jid: JID,
+      config: { body: 'Pay now' },
+      buttons: [{ id: 'pay', title: 'Pay', type: 'quick_reply' }]
+    });
+
+    const edited = await editInteractiveMessage(socket, sent.key, { body: 'Paid', footer: 'Thanks' }, [
+      { id: 'receipt', title: 'Receipt', type: 'quick_reply' }
+    ]);
+
+    const call = socket.calls[1]!;
+    assert.deepStrictEqual(call.options.additionalAttributes, { edit: '1' });
+    assert.strictEqual(edited.messageId, sent.messageId);
+
+    const wire = baileys.proto.Message.decode(baileys.proto.Message.encode(call.message).finish());
+    const protocolMessage = wire.protocolMessage!;
+    assert.strictEqual(protocolMessage.type, baileys.proto.Message.ProtocolMessage.Type.MESSAGE_EDIT);
+    assert.strictEqual(protocolMessage.key?.id, sent.messageId);
+
+    const interactiveMessage = protocolMessage.editedMessage?.interactiveMessage;
+    assert.strictEqual(interactiveMessage?.body?.text, 'Paid');
+    assert.strictEqual(interactiveMessage?.footer?.text, 'Thanks');
+    assert.deepStrictEqual(JSON.parse(interactiveMessage!.nativeFlowMessage!.buttons![0]!.buttonParamsJson!), {
+      display_text: 'Receipt',
+      id: 'receipt'
+    });
+  });
+
+  it('refuses to edit messages of other participants', async () => {
+    await assert.rejects(
+      editInteractiveMessage(socket, { remoteJid: JID, id: 'OTHER', fromMe: false }, { body: 'Paid' }, [
+        { id: 'ok', title: 'OK', type: 'quick_reply' }
+      ]),
+      { name: 'InteractiveValidationError' }
+    );
+    assert.strictEqual(socket.calls.length, 0);
+  });
+});
+
+describe('revokeInteractiveMessage', () => {
+  it('revokes as admin when the message is not our own', async () => {
+    configure({ baileys });
+    const socket = createMockSocket();
+
+    await revokeInteractiveMessage(socket, { remoteJid: '123-456@g.us', id: 'THEIRS', fromMe: false, participant: '1@s.whatsapp.net' });
+
+    const call = socket.calls[0]!;
+    assert.deepStrictEqual(call.options.additionalAttributes, { edit: '8' });
+    assert.strictEqual(call.message.protocolMessage.type, baileys.proto.Message.ProtocolMessage.Type.REVOKE);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Every error class serializes with toJSON() and formats a detailed report.
+ */
+
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+  BaileysCapabilityError,
+  BaileysNotFoundError,
+  MediaUploadError,
+  RelayError,
+  UnsupportedRecipientError
+} from '../src/types/errors.js';
+import { InteractiveValidationError } from '../src/types/validation.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+describe('error classes', () => {
+  it('serialize validation errors as a failed validation result', () => {
+    const error = new InteractiveValidationError(
+      'Invalid interactive message configuration',
+      'sendButtons',
+      [{ path: 'buttons[0].url', message: 'Invalid url', expected: 'https URL', value: 'ftp://x', location: { file: 'menu.yaml', line: 4 } }],
+      [{ path: 'footer', message: 'Footer is long', suggestion: 'Shorten it' }]
+    );
+
+    assert.ok(error instanceof Error);
+    assert.strictEqual(error.name, 'InteractiveValidationError');
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(error)), {
+      isValid: false,
+      errors: [{ path: 'buttons[0].url', message: 'Invalid url', expected: 'https URL', value: 'ftp://x', location: { file: 'menu.yaml', line: 4 } }],
+      warnings: [{ path: 'footer', message: 'Footer is long', suggestion: 'Shorten it' }]
+    });
+    assert.strictEqual(error.formatDetailed(), [
+      'InteractiveValidationError: Invalid interactive message configuration',
+      'Context: sendButtons',
+      '',
+      'Errors:',
+      '  1. buttons[0].url: Invalid url',
+      '     At: menu.yaml:4',
+      '     Value: "ftp://x"',
+      '     Expected: "https URL"',
+      '',
+      'Warnings:',
+      '  1. footer: Footer is long',
+      '     Suggestion: Shorten it',
+      '',
+      ''
+    ].join('\n'));
+  });
+
+  it('serialize relay failures with their key, retryable flag and cause', () => {
+    const error = new RelayError('Relaying the message failed', 'sendCarousel', JID, {
+      key: { remoteJid: JID, id: 'ABC', fromMe: true },
+      retryable: false,
+      cause: new TypeError('socket closed')
+    });
+
+    assert.deepStrictEqual(error.toJSON(), {
+      name: 'RelayError',
+      message: 'Relaying the message failed',
+      context: 'sendCarousel',
+      jid: JID,
+      key: { remoteJid: JID, id: 'ABC', fromMe: true },
+      retryable: false,
+      cause: 'TypeError: socket closed'
+    });
+    assert.strictEqual(error.formatDetailed(), [
+      'RelayError: Relaying the message failed',
+      'Context: sendCarousel',
+      `Recipient: ${JID}`,
+      'Message ID: ABC',
+      'Retryable: no',
+      'Cause: TypeError: socket closed',
+      ''
+    ].join('\n'));
+    assert.strictEqual(new RelayError('failed', 'send', JID).retryable, true);
+  });
+
+  it('serialize upload failures, not retryable unless flagged', () => {
+    const error = new MediaUploadError('Uploading the header failed', 'prepareHeaderMedia', 'video', { retryable: true, cause: 'ECONNRESET' });
+
+    assert.deepStrictEqual(error.toJSON(), {
+      name: 'MediaUploadError',
+      message: 'Uploading the header failed',
+      context: 'prepareHeaderMedia',
+      mediaType: 'video',
+      retryable: true,
+      cause: 'ECONNRESET'
+    });
+    assert.match(error.formatDetailed(), /^Media type: video\nRetryable: yes\nCause: ECONNRESET$/m);
+    assert.strictEqual(new MediaUploadError('missing', 'prepareHeaderMedia', 'image').retryable, false);
+  });
+
+  it('serialize environment and recipient errors', () => {
+    assert.deepStrictEqual(new BaileysCapabilityError('Incomplete module', 'configure', ['proto']).toJSON(), {
+      name: 'BaileysCapabilityError',
+      message: 'Incomplete module',
+      context: 'configure',
+      missing: ['proto']
+    });
+    assert.strictEqual(
+      new BaileysNotFoundError('No Baileys module found', 'getBaileysAdapter', ['baileys', '@whiskeysockets/baileys']).formatDetailed(),
+      'BaileysNotFoundError: No Baileys module found\nContext: getBaileysAdapter\n\nTried:\n  1. baileys\n  2. @whiskeysockets/baileys\n'
+    );
+
+    const unsupported = new UnsupportedRecipientError('Cannot send', 'sendButtons', 'status@broadcast', 'status updates cannot carry buttons');
+    assert.deepStrictEqual(unsupported.toJSON(), {
+      name: 'UnsupportedRecipientError',
+      message: 'Cannot send',
+      context: 'sendButtons',
+      jid: 'status@broadcast',
+      reason: 'status updates cannot carry buttons'
+    });
+    assert.strictEqual(
+      unsupported.formatDetailed(),
+      'UnsupportedRecipientError: Cannot send\nContext: sendButtons\nRecipient: "status@broadcast"\nReason: status updates cannot carry buttons\n'
+    );
+  });
+});
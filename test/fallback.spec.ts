@@ -0,0 +1,134 @@
+/**
+ * Messages degrade to a poll or numbered text menu, and votes and replies
+ * map back to the original buttons.
+ */
+
+import assert from 'assert';
+import { createHash } from 'crypto';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { buildFallbackText, clearFallbackMenus, sendFallbackMessage } from '../src/helpers/fallback.js';
+import { parseButtonResponse } from '../src/helpers/responses.js';
+import { createMockSocket } from '../src/testing.js';
+import { Button, MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+const GROUP_JID = '123456789-987654321@g.us';
+
+const BUTTONS: Button[] = [
+  { id: 'tea', title: 'Tea', type: 'quick_reply' },
+  { id: 'coffee', title: 'Coffee', type: 'quick_reply' }
+];
+
+/**
+ * Poll update entry Baileys emits once a vote is decrypted
+ */
+function pollVote(pollId: string, title: string): any {
+  const hash = createHash('sha256').update(title).digest();
+  return { key: { remoteJid: JID, id: pollId }, update: { pollUpdates: [{ vote: { selectedOptions: [hash] } }] } };
+}
+
+/**
+ * Incoming text message, optionally quoting another message
+ */
+function textReply(jid: string, text: string, quotedId?: string): any {
+  return {
+    key: { remoteJid: jid, fromMe: false, id: `IN-${text}` },
+    message: quotedId
+      ? { extendedTextMessage: { text, contextInfo: { stanzaId: quotedId } } }
+      : { conversation: text }
+  };
+}
+
+describe('fallback menus', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    clearFallbackMenus();
+    socket = createMockSocket();
+  });
+
+  it('sends a poll and maps a vote to the button', async () => {
+    const sent = await sendFallbackMessage({ socket, jid: JID, config: { body: 'Drink?' }, buttons: BUTTONS }, 'poll');
+
+    assert.strictEqual(sent.fallback, 'poll');
+    assert.deepStrictEqual(socket.calls[0]!.message, { poll: { name: 'Drink?', values: ['Tea', 'Coffee'], selectableCount: 1 } });
+
+    const response = parseButtonResponse(pollVote(sent.messageId!, 'Coffee'));
+    assert.strictEqual(response?.source, 'poll');
+    assert.strictEqual(response?.selectedId, 'coffee');
+    assert.deepStrictEqual(response?.button, BUTTONS[1]);
+    assert.strictEqual(parseButtonResponse(pollVote('UNKNOWN', 'Coffee')), null);
+  });
+
+  it('falls back to a text menu when the buttons do not fit a poll', async () => {
+    const buttons: Button[] = [...BUTTONS, { id: 'site', title: 'Website', type: 'cta_url', url: 'https://shop.example' }];
+    const sent = await sendFallbackMessage({ socket, jid: JID, config: { body: 'Drink?', footer: 'Cafe' }, buttons }, 'poll');
+
+    assert.strictEqual(sent.fallback, 'text');
+    assert.strictEqual(
+      socket.calls[0]!.message.text,
+      'Drink?\n\n1. Tea\n2. Coffee\nWebsite: https://shop.example\n\n_Cafe_\n\nReply with the number of your choice.'
+    );
+  });
+
+  it('matches a numbered or titled reply once, then forgets the menu', async () => {
+    await sendFallbackMessage({ socket, jid: JID, config: { body: 'Drink?' }, buttons: BUTTONS }, 'text');
+
+    assert.strictEqual(parseButtonResponse(textReply(JID, '3')), null);
+    const response = parseButtonResponse(textReply(JID, '2.'));
+    assert.strictEqual(response?.source, 'text');
+    assert.strictEqual(response?.selectedId, 'coffee');
+    assert.strictEqual(parseButtonResponse(textReply(JID, '2')), null);
+
+    await sendFallbackMessage({ socket, jid: JID, config: { body: 'Drink?' }, buttons: BUTTONS }, 'text');
+    assert.strictEqual(parseButtonResponse(textReply(JID, ' tea '))?.selectedId, 'tea');
+  });
+
+  it('numbers list rows and maps them to the row id', () => {
+    const menu = buildFallbackText({ body: 'Pick' }, [{
+      id: 'menu',
+      title: 'Menu',
+      type: 'single_select',
+      options: [{ id: 'a', title: 'First', description: 'One' }, { id: 'b', title: 'Second' }]
+    }]);
+
+    assert.deepStrictEqual(menu.options.map(({ number, title, selectedId }) => ({ number, title, selectedId })), [
+      { number: 1, title: 'First - One', selectedId: 'a' },
+      { number: 2, title: 'Second', selectedId: 'b' }
+    ]);
+  });
+
+  it('only matches group replies quoting the menu', async () => {
+    const sent = await sendFallbackMessage({ socket, jid: GROUP_JID, config: { body: 'Drink?' }, buttons: BUTTONS }, 'text');
+
+    assert.strictEqual(parseButtonResponse(textReply(GROUP_JID, '1')), null);
+    assert.strictEqual(parseButtonResponse(textReply(GROUP_JID, '1', 'OTHER')), null);
+    assert.strictEqual(parseButtonResponse(textReply(GROUP_JID, '1', sent.messageId))?.selectedId, 'tea');
+  });
+
+  it('falls back when the relay fails and sends the fallback up front for groups', async () => {
+    const failing = createMockSocket({ relayError: new Error('not delivered') });
+    const recovered = await sendInteractiveMessage({
+      socket: failing,
+      jid: JID,
+      config: { body: 'Drink?' },
+      buttons: BUTTONS,
+      fallback: { strategy: 'poll' }
+    });
+    assert.strictEqual(recovered.fallback, 'poll');
+
+    const grouped = await sendInteractiveMessage({
+      socket,
+      jid: GROUP_JID,
+      config: { body: 'Drink?' },
+      buttons: BUTTONS,
+      fallback: { strategy: 'text', on: ['group'] }
+    });
+    assert.strictEqual(grouped.fallback, 'text');
+    assert.deepStrictEqual(socket.calls.map(call => call.method), ['sendMessage']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * FlowRouter: screen transitions, back / home navigation, replies to stale
+ * screens, group members and inactivity timeouts.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { FlowRouter, MemoryFlowStateStore, MAX_FLOW_TIMEOUT_MS } from '../src/helpers/flow.js';
+import { createMockSocket } from '../src/testing.js';
+import { FlowScreen, FlowState, MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+const GROUP_JID = '123456789-987654321@g.us';
+const ALICE = '111@s.whatsapp.net';
+const BOB = '222@s.whatsapp.net';
+
+const SCREENS: FlowScreen[] = [
+  {
+    id: 'main',
+    config: { body: 'Main menu' },
+    buttons: [{ id: 'orders', title: 'Orders', type: 'quick_reply' }, { id: 'help', title: 'Help', type: 'quick_reply' }],
+    next: { orders: 'orders', help: 'help' }
+  },
+  {
+    id: 'orders',
+    config: { body: 'Your orders' },
+    buttons: [{ id: 'details', title: 'Details', type: 'quick_reply' }, { id: 'back', title: 'Back', type: 'quick_reply' }],
+    next: { details: 'details' }
+  },
+  {
+    id: 'details',
+    config: { body: 'Order details' },
+    buttons: [{ id: 'home', title: 'Home', type: 'quick_reply' }, { id: 'back', title: 'Back', type: 'quick_reply' }]
+  },
+  {
+    id: 'help',
+    config: { body: 'Help' },
+    buttons: [{ id: 'back', title: 'Back', type: 'quick_reply' }]
+  }
+];
+
+/**
+ * A tap on a button of the screen sent with the given message ID
+ */
+function reply(quotedId: string | undefined, selectedId: string, jid: string = JID, participant?: string) {
+  return {
+    key: { remoteJid: jid, fromMe: false, id: `REPLY-${selectedId}`, ...(participant && { participant }) },
+    message: {
+      interactiveResponseMessage: {
+        nativeFlowResponseMessage: { name: 'quick_reply', paramsJson: JSON.stringify({ id: selectedId }) },
+        contextInfo: quotedId ? { stanzaId: quotedId } : {}
+      }
+    }
+  };
+}
+
+/**
+ * ID of the last screen the router sent
+ */
+function lastScreenId(socket: MockSocket): string {
+  return socket.lastSent()!.messageId!;
+}
+
+describe('FlowRouter', () => {
+  let socket: MockSocket;
+  let router: FlowRouter;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+    router = new FlowRouter({ socket, screens: SCREENS, initialScreen: 'main' });
+  });
+
+  it('sends the initial screen on start', async () => {
+    const transition = await router.start(JID);
+
+    assert.deepStrictEqual(transition, { jid: JID, to: 'main' });
+    assert.strictEqual(socket.lastSent()?.body, 'Main menu');
+    assert.strictEqual((await router.store.get(JID))?.messageId, lastScreenId(socket));
+  });
+
+  it('follows next links and records history', async () => {
+    await router.start(JID);
+    await router.handle(reply(lastScreenId(socket), 'orders'));
+    const transition = await router.handle(reply(lastScreenId(socket), 'details'));
+
+    assert.strictEqual(transition?.from, 'orders');
+    assert.strictEqual(transition?.to, 'details');
+    assert.strictEqual(transition?.response?.selectedId, 'details');
+    assert.deepStrictEqual((await router.store.get(JID))?.history, ['main', 'orders']);
+    assert.strictEqual(socket.lastSent()?.body, 'Order details');
+  });
+
+  it('goes back and home', async () => {
+    await router.start(JID);
+    await router.handle(reply(lastScreenId(socket), 'orders'));
+    await router.handle(reply(lastScreenId(socket), 'details'));
+
+    const back = await router.handle(reply(lastScreenId(socket), 'back'));
+    assert.deepStrictEqual([back?.from, back?.to], ['details', 'orders']);
+    assert.deepStrictEqual((await router.store.get(JID))?.history, ['main']);
+
+    await router.handle(reply(lastScreenId(socket), 'details'));
+    const home = await router.handle(reply(lastScreenId(socket), 'home'));
+    assert.deepStrictEqual([home?.from, home?.to], ['details', 'main']);
+    assert.deepStrictEqual((await router.store.get(JID))?.history, []);
+  });
+
+  it('uses a screen resolver instead of next links', async () => {
+    const resolved: string[] = [];
+    router.replaceScreens(SCREENS.map(screen => screen.id !== 'main' ? screen : {
+      ...screen,
+      resolve: (response, state: FlowState) => {
+        resolved.push(`${state.screenId}:${response.selectedId}`);
+        return 'help';
+      }
+    }));
+
+    await router.start(JID);
+    const transition = await router.handle(reply(lastScreenId(socket), 'orders'));
+
+    assert.deepStrictEqual(resolved, ['main:orders']);
+    assert.strictEqual(transition?.to, 'help');
+  });
+
+  it('ignores taps on older screens and replies quoting nothing', async () => {
+    await router.start(JID);
+    const mainScreenId = lastScreenId(socket);
+    await router.handle(reply(mainScreenId, 'orders'));
+
+    assert.strictEqual(await router.handle(reply(mainScreenId, 'help')), null);
+    assert.strictEqual(await router.handle(reply(undefined, 'details')), null);
+    assert.strictEqual((await router.store.get(JID))?.screenId, 'orders');
+    assert.strictEqual(socket.calls.length, 2);
+  });
+
+  it('ignores replies without an active flow and unknown reply IDs', async () => {
+    assert.strictEqual(await router.handle(reply('NONE', 'orders')), null);
+
+    await router.start(JID);
+    assert.strictEqual(await router.handle(reply(lastScreenId(socket), 'unknown')), null);
+    assert.strictEqual(await router.handle({ key: { remoteJid: JID }, message: { conversation: 'hi' } }), null);
+  });
+
+  it('keeps a flow per group member', async () => {
+    await router.start(GROUP_JID, ALICE);
+    const aliceScreenId = lastScreenId(socket);
+
+    assert.strictEqual(await router.handle(reply(aliceScreenId, 'orders', GROUP_JID, BOB)), null);
+
+    const transition = await router.handle(reply(aliceScreenId, 'orders', GROUP_JID, ALICE));
+    assert.deepStrictEqual([transition?.participant, transition?.to], [ALICE, 'orders']);
+    assert.strictEqual((await router.store.get(`${GROUP_JID}:${ALICE}`))?.screenId, 'orders');
+    assert.strictEqual(await router.store.get(GROUP_JID), undefined);
+  });
+
+  it('lets any member advance a flow shared with the group, from its current screen only', async () => {
+    await router.start(GROUP_JID);
+    const mainScreenId = lastScreenId(socket);
+
+    const transition = await router.handle(reply(mainScreenId, 'orders', GROUP_JID, BOB));
+    assert.deepStrictEqual([transition?.participant, transition?.to], [undefined, 'orders']);
+
+    assert.strictEqual(await router.handle(reply(mainScreenId, 'help', GROUP_JID, ALICE)), null);
+  });
+
+  it('times out a conversation that gets no reply', async () => {
+    const timedOut: Array<[string, string]> = [];
+    router = new FlowRouter({
+      socket,
+      screens: SCREENS,
+      initialScreen: 'main',
+      timeoutMs: 20,
+      onTimeout: (jid, state) => { timedOut.push([jid, state.screenId]); }
+    });
+
+    await router.start(JID);
+    await sleep(60);
+
+    assert.deepStrictEqual(timedOut, [[JID, 'main']]);
+    assert.strictEqual(await router.store.get(JID), undefined);
+  });
+
+  it('cancels pending timeouts on close', async () => {
+    const timedOut: string[] = [];
+    router = new FlowRouter({
+      socket,
+      screens: SCREENS,
+      initialScreen: 'main',
+      timeoutMs: 20,
+      onTimeout: jid => { timedOut.push(jid); }
+    });
+
+    await router.start(JID);
+    router.close();
+    await sleep(60);
+
+    assert.deepStrictEqual(timedOut, []);
+  });
+
+  it('rejects timeouts a timer cannot wait for', () => {
+    [0, -1, MAX_FLOW_TIMEOUT_MS + 1, Number.POSITIVE_INFINITY, Number.NaN].forEach(timeoutMs => {
+      assert.throws(
+        () => new FlowRouter({ socket, screens: SCREENS, initialScreen: 'main', timeoutMs }),
+        { name: 'InteractiveValidationError', message: 'Invalid flow timeout' }
+      );
+    });
+    assert.doesNotThrow(() => new FlowRouter({ socket, screens: SCREENS, initialScreen: 'main', timeoutMs: MAX_FLOW_TIMEOUT_MS }));
+  });
+
+  it('rejects links to undeclared screens', () => {
+    assert.throws(
+      () => new FlowRouter({ socket, screens: [{ ...SCREENS[0]!, next: { orders: 'missing' } }], initialScreen: 'main' }),
+      { name: 'InteractiveValidationError', message: 'Invalid flow definition' }
+    );
+  });
+});
+
+describe('MemoryFlowStateStore', () => {
+  const state = (updatedAt: number): FlowState => ({ screenId: 'main', history: [], updatedAt });
+
+  it('drops conversations older than the TTL', async () => {
+    const store = new MemoryFlowStateStore({ ttlMs: 1000 });
+    await store.set('old', state(Date.now() - 2000));
+    await store.set('new', state(Date.now()));
+
+    assert.strictEqual(await store.get('old'), undefined);
+    assert.ok(await store.get('new'));
+  });
+
+  it('evicts the least recently updated conversation at the limit', async () => {
+    const store = new MemoryFlowStateStore({ limit: 2 });
+    await store.set('a', state(Date.now()));
+    await store.set('b', state(Date.now()));
+    await store.set('a', state(Date.now()));
+    await store.set('c', state(Date.now()));
+
+    assert.strictEqual(await store.get('b'), undefined);
+    assert.ok(await store.get('a'));
+    assert.ok(await store.get('c'));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Flow form submissions (nfm_reply) are parsed from native flow replies and
+ * Cloud API style payloads.
+ */
+
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseFlowResponse } from '../src/helpers/forms.js';
+
+describe('parseFlowResponse', () => {
+  it('parses a native flow reply into the form fields, token, body and quoted key', () => {
+    const responseJson = JSON.stringify({ flow_token: 'token-1', name: 'Ana', size: 'M' });
+    const response = parseFlowResponse<{ name: string; size: string }>({
+      key: { remoteJid: '1234567890@s.whatsapp.net', id: 'IN1' },
+      message: {
+        interactiveResponseMessage: {
+          body: { text: 'Sent' },
+          nativeFlowResponseMessage: { name: 'flow', paramsJson: responseJson, version: 3 },
+          contextInfo: { stanzaId: 'FORM1' }
+        }
+      }
+    });
+
+    assert.deepStrictEqual(response, {
+      name: 'flow',
+      data: { name: 'Ana', size: 'M' },
+      responseJson,
+      flowToken: 'token-1',
+      body: 'Sent',
+      version: 3,
+      quotedKey: { id: 'FORM1', remoteJid: '1234567890@s.whatsapp.net' }
+    });
+  });
+
+  it('parses Cloud API style nfm_reply payloads', () => {
+    const responseJson = '{"flow_token":42,"rating":5}';
+
+    assert.deepStrictEqual(parseFlowResponse({ nfm_reply: { name: 'flow', body: 'Sent', response_json: responseJson } }), {
+      name: 'flow',
+      data: { rating: 5 },
+      responseJson,
+      flowToken: '42',
+      body: 'Sent'
+    });
+    assert.strictEqual(parseFlowResponse({ interactive: { nfm_reply: { response_json: responseJson } } })?.flowToken, '42');
+  });
+
+  it('ignores other native flow replies and malformed responses', () => {
+    const reply = (name: string, paramsJson: string) => ({
+      interactiveResponseMessage: { nativeFlowResponseMessage: { name, paramsJson } }
+    });
+
+    assert.strictEqual(parseFlowResponse(reply('quick_reply', '{"id":"yes"}')), null);
+    assert.strictEqual(parseFlowResponse(reply('flow', '{not json')), null);
+    assert.strictEqual(parseFlowResponse(reply('flow', '[1, 2]')), null);
+    assert.strictEqual(parseFlowResponse({ conversation: 'hi' }), null);
+    assert.strictEqual(parseFlowResponse(null), null);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Header media uploads: one upload per media version, per-send fields applied
+ * to the cached upload.
+ */
+
+import assert from 'assert';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { clearMediaCache, prepareHeaderMedia } from '../src/helpers/media.js';
+import { createMockSocket } from '../src/testing.js';
+import { MockSocket } from '../src/types/index.js';
+
+describe('prepareHeaderMedia', () => {
+  let socket: MockSocket;
+  let dir: string;
+
+  beforeEach(async () => {
+    configure({ baileys });
+    clearMediaCache();
+    socket = createMockSocket();
+    dir = await mkdtemp(join(tmpdir(), 'media-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('uploads the same Buffer once and applies per-send fields', async () => {
+    const media = Buffer.from('%PDF-1.4 invoice');
+
+    const first = await prepareHeaderMedia(socket, { mediaType: 'document', media, fileName: 'a.pdf', mediaCaption: 'First' });
+    const second = await prepareHeaderMedia(socket, { mediaType: 'document', media, fileName: 'b.pdf', mediaCaption: 'Second' });
+
+    assert.strictEqual(socket.uploads.length, 1);
+    assert.strictEqual(first['documentMessage'].directPath, second['documentMessage'].directPath);
+    assert.deepStrictEqual(
+      [first['documentMessage'].fileName, first['documentMessage'].caption],
+      ['a.pdf', 'First']
+    );
+    assert.deepStrictEqual(
+      [second['documentMessage'].fileName, second['documentMessage'].caption],
+      ['b.pdf', 'Second']
+    );
+  });
+
+  it('uploads a file again once it is rewritten in place', async () => {
+    const file = join(dir, 'invoice.pdf');
+    await writeFile(file, '%PDF-1.4 version one');
+
+    await prepareHeaderMedia(socket, { mediaType: 'document', media: file });
+    await prepareHeaderMedia(socket, { mediaType: 'document', media: file });
+    assert.strictEqual(socket.uploads.length, 1);
+
+    await writeFile(file, '%PDF-1.4 version two, longer');
+    const rewritten = await prepareHeaderMedia(socket, { mediaType: 'document', media: file });
+    assert.strictEqual(socket.uploads.length, 2);
+    assert.strictEqual(rewritten['documentMessage'].directPath, '/mock/2');
+  });
+
+  it('fails with a MediaUploadError that is not retryable for a missing file', async () => {
+    await assert.rejects(
+      prepareHeaderMedia(socket, { mediaType: 'document', media: join(dir, 'missing.pdf') }),
+      { name: 'MediaUploadError', retryable: false }
+    );
+    assert.strictEqual(socket.uploads.length, 0);
+  });
+
+  it('builds location headers without uploading', async () => {
+    const prepared = await prepareHeaderMedia(socket, { mediaType: 'location', latitude: 1.5, longitude: 2.5, name: 'Shop' });
+
+    assert.deepStrictEqual(prepared, { locationMessage: { degreesLatitude: 1.5, degreesLongitude: 2.5, name: 'Shop' } });
+    assert.strictEqual(socket.uploads.length, 0);
+  });
+});
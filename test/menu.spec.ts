@@ -0,0 +1,75 @@
+/**
+ * watchMenuFile: reloads on change, keeps the previous menu on invalid edits
+ * and stops (without crashing) when the watched directory fails.
+ */
+
+import assert from 'assert';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { setLogger, silentLogger } from '../src/helpers/logger.js';
+import { watchMenuFile } from '../src/helpers/menu.js';
+import { MenuDefinition } from '../src/types/index.js';
+
+/**
+ * A valid one-screen menu with the given body
+ */
+function menuJson(body: string): string {
+  return JSON.stringify({ screens: [{ id: 'main', body, buttons: [{ id: 'ok', title: 'OK' }] }] });
+}
+
+describe('watchMenuFile', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'menu-'));
+    file = join(dir, 'menu.json');
+    await writeFile(file, menuJson('First'));
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    setLogger();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reloads the menu when the file changes and reports invalid edits', async () => {
+    const reloaded: MenuDefinition[] = [];
+    const errors: unknown[] = [];
+    const watcher = watchMenuFile(file, menu => { reloaded.push(menu); }, { debounceMs: 10, onError: error => errors.push(error) });
+
+    try {
+      await writeFile(file, menuJson('Second'));
+      await sleep(200);
+      await writeFile(file, '{ "screens": ');
+      await sleep(200);
+    } finally {
+      watcher.close();
+    }
+
+    assert.strictEqual(reloaded.at(-1)?.screens[0]?.config.body, 'Second');
+    assert.ok(errors.length > 0);
+    assert.strictEqual((errors.at(-1) as Error).name, 'InteractiveValidationError');
+  });
+
+  it('stops watching and logs when the watcher fails', () => {
+    const emitter = Object.assign(new EventEmitter(), { close: mock.fn() });
+    mock.method(fs, 'watch', () => emitter);
+    const logged: unknown[] = [];
+    setLogger({ ...silentLogger, error: (obj: unknown, msg?: string) => { logged.push([obj, msg]); } });
+    const errors: unknown[] = [];
+
+    watchMenuFile(file, () => {}, { onError: error => errors.push(error) });
+    const failure = Object.assign(new Error('watched directory removed'), { code: 'EPERM' });
+    emitter.emit('error', failure);
+
+    assert.strictEqual(emitter.close.mock.callCount(), 1);
+    assert.deepStrictEqual(logged, [[{ file, err: failure }, 'menu watcher failed, reloading stopped']]);
+    assert.deepStrictEqual(errors, [failure]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Sends, failures, fallbacks and relay latency are counted and exported in
+ * the Prometheus text format.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { formatPrometheusMetrics, getStats, recordSent, recordValidationFailure, resetStats } from '../src/helpers/metrics.js';
+import { createMockSocket } from '../src/testing.js';
+import { Button } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+const BUTTONS: Button[] = [
+  { id: 'yes', title: 'Yes', type: 'quick_reply' },
+  { id: 'site', title: 'Site', type: 'cta_url', url: 'https://shop.example' }
+];
+
+describe('metrics', () => {
+  beforeEach(() => {
+    configure({ baileys });
+    resetStats();
+  });
+
+  it('counts sent messages, buttons by type, failures and fallbacks', async () => {
+    await sendInteractiveMessage({ socket: createMockSocket(), jid: JID, config: { body: 'Hi' }, buttons: BUTTONS });
+    await assert.rejects(sendInteractiveMessage({
+      socket: createMockSocket({ relayError: new Error('offline') }),
+      jid: JID,
+      config: { body: 'Hi' },
+      buttons: BUTTONS
+    }));
+    await sendInteractiveMessage({
+      socket: createMockSocket({ relayError: new Error('offline') }),
+      jid: JID,
+      config: { body: 'Hi' },
+      buttons: [BUTTONS[0]!],
+      fallback: { strategy: 'text' }
+    });
+
+    const stats = getStats();
+    assert.deepStrictEqual(stats.messagesSent, { sendInteractiveMessage: 1 });
+    assert.deepStrictEqual(stats.buttonsSent, { quick_reply: 1, cta_url: 1 });
+    assert.deepStrictEqual(stats.sendFailures, { sendInteractiveMessage: 2 });
+    assert.deepStrictEqual(stats.fallbacks, { text: 1 });
+    assert.strictEqual(stats.relayLatencySeconds.count, 1);
+  });
+
+  it('counts each failed rule once per message, without indices', () => {
+    recordValidationFailure('sendButtons', [
+      { path: 'buttons[0].url', message: 'Invalid url' },
+      { path: 'buttons[2].url', message: 'Invalid url' },
+      { path: 'body', message: 'Required' }
+    ]);
+
+    assert.deepStrictEqual(getStats().validationFailures, { 'buttons[].url': 1, body: 1 });
+  });
+
+  it('exports counters and a cumulative latency histogram', () => {
+    recordSent('sendInteractiveMessage', { interactiveMessage: { nativeFlowMessage: { buttons: [{ name: 'quick_reply' }] } } }, 0.2);
+    recordSent('sendCarousel', {}, 3);
+    recordValidationFailure('sendButtons', [{ path: 'label "x"', message: 'Invalid' }]);
+
+    const lines = formatPrometheusMetrics('bot').split('\n');
+
+    assert.ok(lines.includes('# TYPE bot_messages_sent_total counter'));
+    assert.ok(lines.includes('bot_messages_sent_total{operation="sendInteractiveMessage"} 1'));
+    assert.ok(lines.includes('bot_messages_sent_total{operation="sendCarousel"} 1'));
+    assert.ok(lines.includes('bot_buttons_sent_total{type="quick_reply"} 1'));
+    assert.ok(lines.includes('bot_validation_failures_total{rule="label \\"x\\""} 1'));
+    assert.ok(lines.includes('# TYPE bot_relay_duration_seconds histogram'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_bucket{le="0.1"} 0'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_bucket{le="0.25"} 1'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_bucket{le="5"} 2'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_bucket{le="+Inf"} 2'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_sum 3.2'));
+    assert.ok(lines.includes('bot_relay_duration_seconds_count 2'));
+    assert.strictEqual(lines[lines.length - 1], '');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Middleware runs stage by stage around each send, may rewrite or stop it,
+ * and only runs for the operations it is limited to.
+ */
+
+import assert from 'assert';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { sendListMessage } from '../src/helpers/list.js';
+import { clearMiddleware, getMiddleware, useMiddleware } from '../src/helpers/middleware.js';
+import { createMockSocket } from '../src/testing.js';
+import { Button, Middleware, MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+const BUTTONS: Button[] = [{ id: 'yes', title: 'Yes', type: 'quick_reply' }];
+
+/**
+ * Middleware recording the stages it runs, prefixed with its name
+ */
+function recordStages(name: string, calls: string[]): Middleware {
+  return {
+    name,
+    beforeValidate: () => { calls.push(`${name}:beforeValidate`); },
+    afterNormalize: () => { calls.push(`${name}:afterNormalize`); },
+    beforeRelay: () => { calls.push(`${name}:beforeRelay`); },
+    afterSend: () => { calls.push(`${name}:afterSend`); },
+    onError: () => { calls.push(`${name}:onError`); }
+  };
+}
+
+describe('middleware', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  afterEach(() => clearMiddleware());
+
+  it('runs every stage in order, middleware in registration order', async () => {
+    const calls: string[] = [];
+    useMiddleware(recordStages('a', calls));
+    useMiddleware(recordStages('b', calls));
+
+    await sendInteractiveMessage({ socket, jid: JID, config: { body: 'Continue?' }, buttons: BUTTONS });
+
+    assert.deepStrictEqual(calls, [
+      'a:beforeValidate', 'b:beforeValidate',
+      'a:afterNormalize', 'b:afterNormalize',
+      'a:beforeRelay', 'b:beforeRelay',
+      'a:afterSend', 'b:afterSend'
+    ]);
+  });
+
+  it('sends the message as rewritten by the hooks and shares state between them', async () => {
+    let relayedId: string | undefined;
+    useMiddleware({
+      beforeValidate: context => {
+        context.config = { ...context.config!, footer: 'ACME Inc.' };
+        context.state['startedAt'] = 1;
+      },
+      afterSend: context => { relayedId = context.state['startedAt'] === 1 ? context.result!.messageId : undefined; }
+    });
+
+    const sent = await sendInteractiveMessage({ socket, jid: JID, config: { body: 'Continue?' }, buttons: BUTTONS });
+
+    assert.strictEqual(socket.calls[0]!.message.interactiveMessage.footer.text, 'ACME Inc.');
+    assert.strictEqual(relayedId, sent.messageId);
+  });
+
+  it('validates a message rewritten by beforeValidate again', async () => {
+    useMiddleware({ beforeValidate: context => { context.buttons = []; } });
+
+    await assert.rejects(
+      sendInteractiveMessage({ socket, jid: JID, config: { body: 'Continue?' }, buttons: BUTTONS }),
+      { name: 'InteractiveValidationError', message: 'Invalid interactive message configuration after middleware' }
+    );
+    assert.strictEqual(socket.calls.length, 0);
+  });
+
+  it('stops the send at a failing hook and reports the error once', async () => {
+    const calls: string[] = [];
+    useMiddleware(recordStages('a', calls));
+    useMiddleware({ beforeRelay: () => { throw new Error('blocked'); } });
+    useMiddleware(recordStages('b', calls));
+
+    await assert.rejects(
+      sendInteractiveMessage({ socket, jid: JID, config: { body: 'Continue?' }, buttons: BUTTONS }),
+      { message: 'blocked' }
+    );
+
+    assert.deepStrictEqual(calls, [
+      'a:beforeValidate', 'b:beforeValidate',
+      'a:afterNormalize', 'b:afterNormalize',
+      'a:beforeRelay',
+      'a:onError', 'b:onError'
+    ]);
+    assert.strictEqual(socket.calls.length, 0);
+  });
+
+  it('starts at beforeRelay for content not built from config and buttons', async () => {
+    const calls: string[] = [];
+    useMiddleware(recordStages('a', calls));
+
+    await sendListMessage({
+      socket,
+      jid: JID,
+      list: { body: 'Menu', buttonText: 'Open', sections: [{ rows: [{ id: 'tea', title: 'Tea' }] }] }
+    });
+
+    assert.deepStrictEqual(calls, ['a:beforeRelay', 'a:afterSend']);
+  });
+
+  it('only runs middleware for the operations it lists', async () => {
+    const calls: string[] = [];
+    useMiddleware({ operations: ['sendListMessage'], beforeRelay: context => { calls.push(context.operation); } });
+
+    await sendInteractiveMessage({ socket, jid: JID, config: { body: 'Continue?' }, buttons: BUTTONS });
+    await sendListMessage({
+      socket,
+      jid: JID,
+      list: { body: 'Menu', buttonText: 'Open', sections: [{ rows: [{ id: 'tea', title: 'Tea' }] }] }
+    });
+
+    assert.deepStrictEqual(calls, ['sendListMessage']);
+  });
+
+  it('refuses hooks for stages none of the listed operations run', () => {
+    const hooks = { operations: ['sendCarousel', 'sendProductMessage'], beforeValidate: () => {} } as const;
+
+    // @ts-expect-error beforeValidate never runs for carousels and products
+    assert.throws(() => useMiddleware(hooks), {
+      name: 'InteractiveValidationError',
+      errors: [{
+        path: 'beforeValidate',
+        message: 'beforeValidate never runs for sendCarousel, sendProductMessage',
+        expected: 'one of the operations sendInteractiveMessage, editInteractiveMessage, sendBulkInteractive',
+        value: ['sendCarousel', 'sendProductMessage']
+      }]
+    });
+    assert.strictEqual(getMiddleware().length, 0);
+
+    useMiddleware({ operations: ['sendCarousel', 'sendInteractiveMessage'], beforeValidate: () => {} });
+    assert.strictEqual(getMiddleware().length, 1);
+  });
+});
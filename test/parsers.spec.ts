@@ -0,0 +1,152 @@
+/**
+ * Menu file parsers: values with the line they start on, syntax errors located
+ * in the file, and menu definitions validated against those lines.
+ */
+
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseMenuDefinition } from '../src/helpers/menu.js';
+import { findLine, parseJsonWithLines, parseYamlWithLines } from '../src/helpers/parsers.js';
+import { InteractiveValidationError } from '../src/types/validation.js';
+
+/**
+ * Run a parse that must fail and return its validation error
+ */
+function syntaxErrorOf(parse: () => unknown): InteractiveValidationError {
+  try {
+    parse();
+  } catch (error) {
+    assert.ok(error instanceof InteractiveValidationError);
+    return error;
+  }
+  return assert.fail('Expected a syntax error');
+}
+
+describe('parseJsonWithLines', () => {
+  const json = [
+    '{',
+    '  "screens": [',
+    '    {',
+    '      "id": "main",',
+    '      "buttons": [{ "id": "a", "title": "A \\u00e9" }]',
+    '    }',
+    '  ]',
+    '}'
+  ].join('\n');
+
+  it('parses like JSON.parse and records the line of every value', () => {
+    const { value, lines } = parseJsonWithLines(json, 'menu.json');
+
+    assert.deepStrictEqual(value, JSON.parse(json));
+    assert.strictEqual(lines.get('screens'), 2);
+    assert.strictEqual(lines.get('screens[0].id'), 4);
+    assert.strictEqual(lines.get('screens[0].buttons[0].title'), 5);
+    assert.strictEqual(findLine(lines, 'screens[0].buttons[0].missing'), 5);
+  });
+
+  it('keeps a "__proto__" key as a plain property', () => {
+    const { value } = parseJsonWithLines('{ "__proto__": { "polluted": true }, "id": "x" }', 'menu.json');
+
+    assert.strictEqual(Object.getPrototypeOf(value), Object.prototype);
+    assert.deepStrictEqual(Object.keys(value), ['__proto__', 'id']);
+    assert.strictEqual(value.polluted, undefined);
+    assert.deepStrictEqual(Object.getOwnPropertyDescriptor(value, '__proto__')?.value, { polluted: true });
+  });
+
+  it('reports syntax errors with their line', () => {
+    const error = syntaxErrorOf(() => parseJsonWithLines('{\n  "id": "main",\n  "body": }', 'menu.json'));
+
+    assert.strictEqual(error.message, 'Syntax error in menu.json:3');
+    assert.deepStrictEqual(error.errors[0]?.location, { file: 'menu.json', line: 3 });
+  });
+
+  it('reports invalid escapes as located syntax errors', () => {
+    const error = syntaxErrorOf(() => parseJsonWithLines('{\n  "body": "bad \\x escape"\n}', 'menu.json'));
+
+    assert.strictEqual(error.errors[0]?.message, 'Invalid escape sequence in string');
+    assert.deepStrictEqual(error.errors[0]?.location, { file: 'menu.json', line: 2 });
+  });
+
+  it('rejects content after the document', () => {
+    const error = syntaxErrorOf(() => parseJsonWithLines('{}\n[]', 'menu.json'));
+
+    assert.strictEqual(error.errors[0]?.message, 'Unexpected content after the end of the document');
+  });
+
+  it('parses large documents', () => {
+    const rows = Array.from({ length: 20000 }, (_, index) => ({ id: `row-${index}`, title: `Row "${index}"` }));
+    const { value, lines } = parseJsonWithLines(JSON.stringify({ rows }, null, 1), 'menu.json');
+
+    assert.deepStrictEqual(value, { rows });
+    assert.strictEqual(lines.get('rows[19999].title'), 3 + 19999 * 4 + 2);
+  });
+});
+
+describe('parseYamlWithLines', () => {
+  it('parses YAML 1.2 and records the line of every value', () => {
+    const { value, lines } = parseYamlWithLines([
+      'screens:',
+      '  - id: main',
+      '    tags: [a, "b, c"]',
+      '    buttons:',
+      '      - id: a',
+      '        title: A'
+    ].join('\n'), 'menu.yaml');
+
+    assert.deepStrictEqual(value, { screens: [{ id: 'main', tags: ['a', 'b, c'], buttons: [{ id: 'a', title: 'A' }] }] });
+    assert.strictEqual(lines.get('screens[0]'), 2);
+    assert.strictEqual(lines.get('screens[0].tags'), 3);
+    assert.strictEqual(lines.get('screens[0].buttons[0].title'), 6);
+  });
+
+  it('reports syntax errors with their line', () => {
+    const error = syntaxErrorOf(() => parseYamlWithLines('screens:\n  - id: main\n  id: again\n   bad: [', 'menu.yaml'));
+
+    assert.match(error.message, /^Syntax error in menu\.yaml:\d+$/);
+    assert.strictEqual(error.errors[0]?.location?.file, 'menu.yaml');
+  });
+
+  it('keeps a "__proto__" key as a plain property', () => {
+    const { value } = parseYamlWithLines('__proto__:\n  polluted: true\nid: x', 'menu.yaml');
+
+    assert.strictEqual(Object.getPrototypeOf(value), Object.prototype);
+    assert.strictEqual(value.polluted, undefined);
+  });
+});
+
+describe('parseMenuDefinition', () => {
+  it('builds screens with next links from buttons', () => {
+    const menu = parseMenuDefinition([
+      'screens:',
+      '  - id: main',
+      '    body: How can we help?',
+      '    buttons:',
+      '      - id: orders',
+      '        title: My orders',
+      '        next: orders',
+      '  - id: orders',
+      '    body: Your orders',
+      '    buttons:',
+      '      - id: back',
+      '        title: Back'
+    ].join('\n'), 'menu.yaml');
+
+    assert.strictEqual(menu.initialScreen, 'main');
+    assert.deepStrictEqual(menu.screens[0], {
+      id: 'main',
+      config: { body: 'How can we help?' },
+      buttons: [{ id: 'orders', title: 'My orders' }],
+      next: { orders: 'orders' }
+    });
+  });
+
+  it('locates validation errors on the line of the offending value', () => {
+    const error = syntaxErrorOf(() => parseMenuDefinition(JSON.stringify({
+      screens: [{ id: 'main', body: 'Hi', buttons: [{ id: 'a', title: 'A', next: 'missing' }] }]
+    }, null, 2), 'menu.json'));
+
+    assert.strictEqual(error.message, 'Invalid menu definition in menu.json');
+    const link = error.errors.find(entry => entry.path === 'screens[0].buttons[0].next');
+    assert.deepStrictEqual(link?.location, { file: 'menu.json', line: 10 });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Replies to the library's own messages: the relayed message is fed back as the
+ * quoted message of the reply and the original button is recovered from it.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import { sendInteractiveMessage } from '../src/helpers/buttons.js';
+import { sendCarousel } from '../src/helpers/carousel.js';
+import { parseButtonResponse } from '../src/helpers/responses.js';
+import { createMockSocket } from '../src/testing.js';
+import { MockSocket, SentInteractiveMessage } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+/**
+ * The reply WhatsApp delivers when a native flow button of a relayed message is tapped
+ */
+function nativeFlowReply(socket: MockSocket, sent: SentInteractiveMessage, name: string, params: object) {
+  const message = baileys.proto.Message.fromObject({
+    interactiveResponseMessage: {
+      body: { text: 'tapped' },
+      nativeFlowResponseMessage: { name, paramsJson: JSON.stringify(params), version: 3 },
+      contextInfo: {
+        stanzaId: sent.messageId,
+        participant: socket.user.id,
+        quotedMessage: socket.calls[socket.calls.length - 1]!.message
+      }
+    }
+  });
+
+  return {
+    key: { remoteJid: JID, fromMe: false, id: 'REPLY' },
+    message: baileys.proto.Message.decode(baileys.proto.Message.encode(message).finish())
+  };
+}
+
+describe('parseButtonResponse', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('recovers the original button from the quoted message', async () => {
+    const sent = await sendInteractiveMessage({
+      socket,
+      jid: JID,
+      config: { body: 'Pick one' },
+      buttons: [{ id: 'yes', title: 'Yes', type: 'quick_reply' }, { id: 'no', title: 'No', type: 'quick_reply' }]
+    });
+
+    const response = parseButtonResponse(nativeFlowReply(socket, sent, 'quick_reply', { id: 'no' }));
+
+    assert.strictEqual(response?.type, 'quick_reply');
+    assert.strictEqual(response.selectedId, 'no');
+    assert.deepStrictEqual(response.button, { id: 'no', title: 'No', type: 'quick_reply' });
+    assert.deepStrictEqual(response.quotedKey, { id: sent.messageId, remoteJid: JID, participant: socket.user.id });
+  });
+
+  it('recovers the list button and selected row', async () => {
+    const sent = await sendInteractiveMessage({
+      socket,
+      jid: JID,
+      config: { body: 'Menu' },
+      buttons: [{
+        id: 'menu',
+        title: 'Open menu',
+        type: 'single_select',
+        options: [{ id: 'tea', title: 'Tea' }, { id: 'coffee', title: 'Coffee', description: 'Hot' }]
+      }]
+    });
+
+    const response = parseButtonResponse(nativeFlowReply(socket, sent, 'single_select', { id: 'coffee' }));
+
+    assert.strictEqual(response?.type, 'single_select');
+    assert.strictEqual(response.rowId, 'coffee');
+    assert.deepStrictEqual(response.row, { id: 'coffee', title: 'Coffee', description: 'Hot' });
+    assert.strictEqual(response.button?.id, 'menu');
+  });
+
+  it('recovers a button from a carousel card', async () => {
+    const sent = await sendCarousel({
+      socket,
+      jid: JID,
+      config: {
+        body: 'Our picks',
+        cards: ['a', 'b'].map(id => ({
+          body: `Card ${id}`,
+          headerMedia: { mediaType: 'image' as const, media: Buffer.from(`image ${id}`) },
+          buttons: [{ id: `buy-${id}`, title: `Buy ${id}`, type: 'quick_reply' as const }]
+        }))
+      }
+    });
+
+    const response = parseButtonResponse(nativeFlowReply(socket, sent, 'quick_reply', { id: 'buy-b' }));
+
+    assert.deepStrictEqual(response?.button, { id: 'buy-b', title: 'Buy b', type: 'quick_reply' });
+  });
+
+  it('ignores messages that are not button replies', () => {
+    assert.strictEqual(parseButtonResponse({ key: { remoteJid: JID, id: 'TEXT' }, message: { conversation: 'hello' } }), null);
+  });
+});
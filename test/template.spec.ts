@@ -0,0 +1,141 @@
+/**
+ * Templates render {{name}} variables and {{t:key}} translations per recipient
+ * and report placeholders the template cannot resolve.
+ */
+
+import assert from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import * as baileys from 'baileys';
+import { configure } from '../src/helpers/adapter.js';
+import {
+  findUnresolvedPlaceholders,
+  renderMessageTemplate,
+  renderTemplate,
+  sendTemplatedMessage,
+  translate,
+  validateRenderedTemplate
+} from '../src/helpers/template.js';
+import { assertButtons, assertSent, createMockSocket } from '../src/testing.js';
+import { Button, LocaleBundles, MockSocket } from '../src/types/index.js';
+
+const JID = '1234567890@s.whatsapp.net';
+
+const BUNDLES: LocaleBundles = {
+  en: { menu: { greeting: 'Hi {{name}}', orders: 'My orders' } },
+  es: { menu: { greeting: 'Hola {{name}}' } }
+};
+
+describe('renderTemplate', () => {
+  it('replaces variables and translations, leaving unknown placeholders', () => {
+    assert.strictEqual(renderTemplate('{{ name }} has {{count}} {{unknown}}', { name: 'Budi', count: 3 }), 'Budi has 3 {{unknown}}');
+    assert.strictEqual(
+      renderTemplate('{{t:menu.greeting}}!', { name: 'Ana' }, { locale: 'es-MX', bundles: BUNDLES }),
+      'Hola Ana!'
+    );
+  });
+
+  it('does not render placeholders inside substituted values', () => {
+    assert.strictEqual(renderTemplate('Hi {{name}}', { name: '{{secret}}', secret: 'leaked' }), 'Hi {{secret}}');
+  });
+
+  it('falls back from the regional locale to its language and the fallback locale', () => {
+    const localization = { locale: 'es-MX', fallbackLocale: 'en', bundles: BUNDLES };
+    assert.strictEqual(translate('menu.greeting', localization), 'Hola {{name}}');
+    assert.strictEqual(translate('menu.orders', localization), 'My orders');
+    assert.strictEqual(translate('menu.missing', localization), undefined);
+  });
+});
+
+describe('renderMessageTemplate', () => {
+  it('URI-encodes values substituted into cta_url urls after the start', () => {
+    const rendered = renderMessageTemplate(
+      { body: 'Results for {{query}}' },
+      [
+        { id: 'search', title: 'Search {{query}}', type: 'cta_url', url: 'https://shop.example/search?q={{query}}' },
+        { id: 'home', title: 'Home', type: 'cta_url', url: '{{site}}/home' }
+      ],
+      { query: 'tea & cake', site: 'https://shop.example' }
+    );
+
+    assert.strictEqual(rendered.config.body, 'Results for tea & cake');
+    assert.deepStrictEqual(rendered.buttons[0], {
+      id: 'search',
+      title: 'Search tea & cake',
+      type: 'cta_url',
+      url: 'https://shop.example/search?q=tea%20%26%20cake'
+    });
+    assert.strictEqual((rendered.buttons[1] as { url: string }).url, 'https://shop.example/home');
+  });
+});
+
+describe('findUnresolvedPlaceholders', () => {
+  it('reports missing variables and translations with their path', () => {
+    const errors = findUnresolvedPlaceholders(
+      { body: '{{t:menu.greeting}}', footer: '{{t:menu.missing}}' },
+      [{ id: 'orders', title: '{{label}}', type: 'quick_reply' }],
+      {},
+      { locale: 'en', bundles: BUNDLES }
+    );
+
+    assert.deepStrictEqual(errors.map(({ path, value }) => ({ path, value })), [
+      { path: 'body', value: '{{name}}' },
+      { path: 'footer', value: '{{t:menu.missing}}' },
+      { path: 'buttons[0].title', value: '{{label}}' }
+    ]);
+    assert.strictEqual(errors[1]?.message, 'Missing translation for {{t:menu.missing}}');
+  });
+
+  it('accepts values that contain placeholders themselves', () => {
+    const config = { body: 'Hi {{name}}' };
+    const buttons: Button[] = [{ id: 'ok', title: 'OK', type: 'quick_reply' }];
+    const variables = { name: '{{name}}' };
+
+    const unresolved = findUnresolvedPlaceholders(config, buttons, variables);
+    const rendered = renderMessageTemplate(config, buttons, variables);
+
+    assert.deepStrictEqual(unresolved, []);
+    assert.strictEqual(validateRenderedTemplate(rendered.config, rendered.buttons, unresolved).isValid, true);
+  });
+});
+
+describe('sendTemplatedMessage', () => {
+  let socket: MockSocket;
+
+  beforeEach(() => {
+    configure({ baileys });
+    socket = createMockSocket();
+  });
+
+  it('sends the message rendered for the recipient locale', async () => {
+    await sendTemplatedMessage({
+      socket,
+      jid: JID,
+      config: { body: '{{t:menu.greeting}}' },
+      buttons: [{ id: 'orders', title: '{{t:menu.orders}}', type: 'quick_reply' }],
+      variables: { name: 'Ana' },
+      locale: 'es',
+      fallbackLocale: 'en',
+      bundles: BUNDLES
+    });
+
+    assertButtons(assertSent(socket, { body: 'Hola Ana' }), [{ id: 'orders', title: 'My orders' }]);
+  });
+
+  it('sends nothing when a placeholder is unresolved or the rendered text is too long', async () => {
+    await assert.rejects(
+      sendTemplatedMessage({ socket, jid: JID, config: { body: 'Hi {{name}}' }, buttons: [{ id: 'ok', title: 'OK', type: 'quick_reply' }] }),
+      { name: 'InteractiveValidationError', errors: [{ path: 'body', message: 'Unresolved placeholder {{name}}', expected: 'template variable', value: '{{name}}' }] }
+    );
+    await assert.rejects(
+      sendTemplatedMessage({
+        socket,
+        jid: JID,
+        config: { body: 'Hi' },
+        buttons: [{ id: 'ok', title: '{{label}}', type: 'quick_reply' }],
+        variables: { label: 'x'.repeat(100) }
+      }),
+      { name: 'InteractiveValidationError' }
+    );
+    assert.strictEqual(socket.calls.length, 0);
+  });
+});